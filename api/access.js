@@ -0,0 +1,5 @@
+import { handleAccessRequest } from "../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleAccessRequest(req, res);
+}
@@ -0,0 +1,5 @@
+import { handleAuthCallbackRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleAuthCallbackRequest(req, res);
+}
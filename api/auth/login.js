@@ -0,0 +1,5 @@
+import { handleAuthLoginRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleAuthLoginRequest(req, res);
+}
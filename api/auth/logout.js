@@ -0,0 +1,5 @@
+import { handleAuthLogoutRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleAuthLogoutRequest(req, res);
+}
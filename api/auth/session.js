@@ -0,0 +1,5 @@
+import { handleAuthSessionRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleAuthSessionRequest(req, res);
+}
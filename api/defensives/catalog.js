@@ -0,0 +1,5 @@
+import { handleDefensiveCatalogRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleDefensiveCatalogRequest(req, res);
+}
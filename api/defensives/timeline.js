@@ -0,0 +1,5 @@
+import { handleDefensiveTimelineRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleDefensiveTimelineRequest(req, res);
+}
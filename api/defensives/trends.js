@@ -0,0 +1,5 @@
+import { handleDefensiveTrendsRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleDefensiveTrendsRequest(req, res);
+}
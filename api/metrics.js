@@ -0,0 +1,5 @@
+import { handleMetricsRequest } from "../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleMetricsRequest(req, res);
+}
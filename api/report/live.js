@@ -0,0 +1,5 @@
+import { handleReportLiveRequest } from "../../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleReportLiveRequest(req, res);
+}
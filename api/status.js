@@ -0,0 +1,5 @@
+import { handleStatusRequest } from "../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleStatusRequest(req, res);
+}
@@ -0,0 +1,5 @@
+import { handleUsageRequest } from "../server/app.mjs";
+
+export default function handler(req, res) {
+  return handleUsageRequest(req, res);
+}
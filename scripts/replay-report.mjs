@@ -0,0 +1,154 @@
+// Runs fetchReport against the recorded upstream fixtures in fixtures/upstream and checks the payload.
+// `--record` rewrites those fixtures from the fake report below, e.g. after a report query changes.
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const RECORD = process.argv.includes("--record");
+
+process.env.LOGTIME_UPSTREAM_MODE = RECORD ? "record" : "replay";
+process.env.LOGTIME_FIXTURES_DIR = path.join(ROOT, "fixtures", "upstream");
+process.env.LOGTIME_CACHE_DIR = "off";
+process.env.LOGTIME_LOG_LEVEL ??= "warn";
+// The recorded queries ask for the default tracked lanes; an empty value keeps .env from replacing them.
+process.env.LOGTIME_TRACKED_ABILITIES = "";
+if (RECORD) {
+  process.env.WCL_CLIENT_ID = "fixture-client";
+  process.env.WCL_CLIENT_SECRET = "fixture-secret";
+}
+
+const REPORT_CODE = "ReplayFixture001";
+const REPORT_START = Date.UTC(2024, 0, 10, 19, 30);
+const at = (seconds) => REPORT_START + seconds * 1000;
+
+const FAKE_REPORT = {
+  startTime: REPORT_START,
+  endTime: at(1200),
+  title: "Replay fixture raid",
+  zone: { id: 35, name: "Amirdrassil, the Dream's Hope" },
+  owner: { name: "Fixture" },
+  masterData: {
+    actors: [
+      { id: 1, name: "Stonewall", type: "Warrior", subType: "Warrior", server: "Silvermoon" },
+      { id: 2, name: "Tidecall", type: "Shaman", subType: "Shaman", server: "Silvermoon" },
+      { id: 3, name: "Emberleaf", type: "Druid", subType: "Druid", server: "Silvermoon" },
+    ],
+  },
+  fights: [
+    {
+      id: 1,
+      name: "Gnarlroot",
+      encounterID: 2820,
+      startTime: at(60),
+      endTime: at(360),
+      kill: false,
+      friendlyPlayers: [1, 2, 3],
+      bossPercentage: 42.5,
+      fightPercentage: 42.5,
+      lastPhase: 1,
+      lastPhaseIsIntermission: false,
+      phaseTransitions: [{ id: 1, startTime: at(60) }],
+    },
+    {
+      id: 2,
+      name: "Trash",
+      encounterID: 0,
+      startTime: at(400),
+      endTime: at(460),
+      kill: false,
+      friendlyPlayers: [1, 2, 3],
+      bossPercentage: null,
+      fightPercentage: null,
+      lastPhase: null,
+      lastPhaseIsIntermission: null,
+      phaseTransitions: [],
+    },
+    {
+      id: 3,
+      name: "Gnarlroot",
+      encounterID: 2820,
+      startTime: at(600),
+      endTime: at(900),
+      kill: true,
+      friendlyPlayers: [1, 2, 3],
+      bossPercentage: 0,
+      fightPercentage: 0,
+      lastPhase: 1,
+      lastPhaseIsIntermission: false,
+      phaseTransitions: [{ id: 1, startTime: at(600) }],
+    },
+  ],
+  phases: [
+    { encounterID: 2820, separatesWipes: false, phases: [{ id: 1, name: "Phase 1", isIntermission: false }] },
+  ],
+};
+
+const FAKE_EVENTS = {
+  deaths: [{ fight: 1, timestamp: at(300), type: "death", targetID: 3 }],
+  casts: [
+    { fight: 1, timestamp: at(65), type: "cast", sourceID: 2, abilityGameID: 2825 },
+    { fight: 1, timestamp: at(200), type: "cast", sourceID: 1, abilityGameID: 97462 },
+    { fight: 3, timestamp: at(605), type: "cast", sourceID: 2, abilityGameID: 2825 },
+  ],
+};
+
+// Answers the WCL OAuth and GraphQL calls the way the real API would for FAKE_REPORT.
+async function fakeWclFetch(url, init = {}) {
+  if (String(url).includes("/oauth/token")) {
+    return Response.json({ access_token: "fixture-token", token_type: "Bearer", expires_in: 3600 });
+  }
+  const { query, variables } = JSON.parse(init.body);
+  if (query.includes("rateLimitData")) {
+    const rateLimitData = { limitPerHour: 3600, pointsSpentThisHour: 12, pointsResetIn: 1800 };
+    return Response.json({ data: { rateLimitData } });
+  }
+  const report = query.includes("fights {") ? structuredClone(FAKE_REPORT) : {};
+  for (const [, alias] of query.matchAll(/(\w+): events\(/g)) {
+    const startTime = variables[`${alias}_startTime`] ?? 0;
+    const filter = variables[`${alias}_filterExpression`] ?? "";
+    const abilityIds = (filter.match(/\d+/g) ?? []).map(Number);
+    const source = query.includes(`${alias}: events(dataType: Deaths`)
+      ? FAKE_EVENTS.deaths
+      : variables[`${alias}_hostilityType`] === "Enemies"
+        ? []
+        : FAKE_EVENTS.casts.filter((event) => abilityIds.includes(event.abilityGameID));
+    report[alias] = { data: source.filter((event) => event.timestamp >= startTime), nextPageTimestamp: null };
+  }
+  return Response.json({ data: { reportData: { report } } });
+}
+
+if (RECORD) {
+  globalThis.fetch = fakeWclFetch;
+}
+const { fetchReport } = await import("../server/app.mjs");
+
+try {
+  const payload = await fetchReport(REPORT_CODE);
+  assert.equal(payload.code, REPORT_CODE);
+  assert.equal(payload.cache.status, "miss");
+  assert.equal(payload.cache.finished, true);
+  assert.deepEqual(
+    payload.fights.map((fight) => [fight.id, fight.deaths?.length ?? null, fight.bloodlusts?.length ?? null]),
+    [
+      [1, 1, 1],
+      [2, 0, 0],
+      [3, 0, 1],
+    ],
+  );
+  assert.equal(payload.fights[0].deaths[0].target.name, "Emberleaf");
+  assert.deepEqual(
+    payload.fights[0].trackedEvents.map((event) => [event.group, event.source.name, event.ability.id]),
+    [
+      ["bloodlust", "Tidecall", 2825],
+      ["raid-cooldowns", "Stonewall", 97462],
+    ],
+  );
+  const cached = await fetchReport(REPORT_CODE);
+  assert.equal(cached.cache.status, "hit");
+  console.log(`${RECORD ? "Recorded" : "Replayed"} ${REPORT_CODE}: ${payload.fights.length} fights match.`);
+  process.exit(0);
+} catch (error) {
+  console.error(error);
+  process.exit(1);
+}
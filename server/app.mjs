@@ -1,3 +1,16 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import path from "node:path";
 import express from "express";
 import dotenv from "dotenv";
 
@@ -12,14 +25,69 @@ const WOW_REGION = process.env.WOW_REGION ?? process.env.wow_region ?? "us";
 const WOW_LOCALE = process.env.WOW_LOCALE ?? process.env.wow_locale ?? "en_US";
 const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY ?? process.env.youtube_api_key ?? null;
 
-if (!WCL_CLIENT_ID || !WCL_CLIENT_SECRET) {
-  console.warn(
-    "[logtime] Missing WCL_CLIENT_ID or WCL_CLIENT_SECRET. GraphQL requests will fail until they are set.",
-  );
+// Logs are one JSON object per line (LOGTIME_LOG_FORMAT=text for local reading). Entries written while a
+// request is handled carry its request ID and route.
+const LOG_FORMAT = (process.env.LOGTIME_LOG_FORMAT ?? process.env.logtime_log_format ?? "json").toLowerCase();
+const LOG_LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_LEVEL =
+  LOG_LEVELS[(process.env.LOGTIME_LOG_LEVEL ?? process.env.logtime_log_level ?? "info").toLowerCase()] ??
+  LOG_LEVELS.info;
+const requestContext = new AsyncLocalStorage();
+// The context beginRequest opened for each request, so a handler that re-enters it reuses the same one.
+const requestContexts = new WeakMap();
+
+// `record` saves every upstream response under UPSTREAM_FIXTURES_DIR; `replay` serves them without network.
+const UPSTREAM_MODE = (process.env.LOGTIME_UPSTREAM_MODE ?? process.env.logtime_upstream_mode ?? "live").toLowerCase();
+const UPSTREAM_FIXTURES_DIR = path.resolve(
+  process.env.LOGTIME_FIXTURES_DIR ?? process.env.logtime_fixtures_dir ?? "fixtures/upstream",
+);
+if (!["live", "record", "replay"].includes(UPSTREAM_MODE)) {
+  throw new Error(`LOGTIME_UPSTREAM_MODE must be live, record or replay (got "${UPSTREAM_MODE}").`);
+}
+if (UPSTREAM_MODE !== "live") {
+  logEvent("info", "Upstream fixtures enabled", { mode: UPSTREAM_MODE, directory: UPSTREAM_FIXTURES_DIR });
+}
+
+if (!hasWclCredentials()) {
+  logEvent("warn", "Missing WCL_CLIENT_ID or WCL_CLIENT_SECRET; GraphQL requests will fail until set");
 }
 
-const OAUTH_URL = "https://www.warcraftlogs.com/oauth/token";
-const GRAPHQL_URL = "https://www.warcraftlogs.com/api/v2/client";
+// Point these at a local fake server to develop without warcraftlogs.com.
+const OAUTH_URL = process.env.OAUTH_URL ?? process.env.oauth_url ?? "https://www.warcraftlogs.com/oauth/token";
+const GRAPHQL_URL =
+  process.env.GRAPHQL_URL ?? process.env.graphql_url ?? "https://www.warcraftlogs.com/api/v2/client";
+const AUTHORIZE_URL =
+  process.env.AUTHORIZE_URL ?? process.env.authorize_url ?? "https://www.warcraftlogs.com/oauth/authorize";
+const USER_GRAPHQL_URL =
+  process.env.USER_GRAPHQL_URL ?? process.env.user_graphql_url ?? "https://www.warcraftlogs.com/api/v2/user";
+const YOUTUBE_API_URL =
+  process.env.YOUTUBE_API_URL ?? process.env.youtube_api_url ?? "https://www.googleapis.com/youtube/v3/videos";
+
+// User login (authorization code + PKCE). Sessions live in an encrypted HTTP-only cookie.
+const SESSION_SECRET = process.env.LOGTIME_SESSION_SECRET ?? process.env.logtime_session_secret ?? null;
+const WCL_REDIRECT_URI = process.env.WCL_REDIRECT_URI ?? process.env.wcl_redirect_uri ?? null;
+const PUBLIC_URL = process.env.LOGTIME_PUBLIC_URL ?? process.env.logtime_public_url ?? null;
+const SESSION_COOKIE = "logtime_session";
+const LOGIN_COOKIE = "logtime_login";
+const LOGIN_TTL_SECONDS = 600;
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 3600;
+
+// Optional proxy access control: API keys (`name:key` pairs) and/or a shared team password. Every client
+// also gets a request budget per window, counted per IP and per key.
+const ACCESS_KEYS = parseAccessKeys(process.env.LOGTIME_API_KEYS ?? process.env.logtime_api_keys ?? "");
+const TEAM_PASSWORD = process.env.LOGTIME_TEAM_PASSWORD ?? process.env.logtime_team_password ?? null;
+const ADMIN_KEY = process.env.LOGTIME_ADMIN_KEY ?? process.env.logtime_admin_key ?? null;
+const TRUST_PROXY =
+  Boolean(process.env.VERCEL) ||
+  ["1", "true"].includes(String(process.env.LOGTIME_TRUST_PROXY ?? process.env.logtime_trust_proxy ?? ""));
+const ACCESS_COOKIE = "logtime_access";
+const ACCESS_MAX_AGE_SECONDS = 30 * 24 * 3600;
+const CLIENT_BUDGET_WINDOW_MS = Math.max(1, readBudgetEnv("LOGTIME_BUDGET_WINDOW_SECONDS", 60)) * 1000;
+const IP_BUDGET = readBudgetEnv("LOGTIME_IP_BUDGET", 30);
+const KEY_BUDGET = readBudgetEnv("LOGTIME_KEY_BUDGET", 120);
+const CLIENT_USAGE_LIMIT = 1000;
+const clientUsage = { ip: new Map(), key: new Map() };
+const accessStats = { allowed: 0, unauthorized: 0, limited: 0 };
 
 const tokenCache = {
   accessToken: null,
@@ -35,6 +103,48 @@ let abilityIconCache = null;
 const itemIconCache = new Map();
 const youtubeLiveStartCache = new Map();
 
+// Report cache: entries live in memory and as one JSON file per report code under REPORT_CACHE_DIR.
+const REPORT_CACHE_DIR = resolveReportCacheDir();
+const REPORT_CACHE_VERSION = 4;
+const REPORT_CACHE_MEMORY_LIMIT = 50;
+const LIVE_REPORT_RECHECK_MS = 30_000;
+const FINISHED_REPORT_AGE_MS = 2 * 60 * 60 * 1000;
+const reportCache = new Map();
+const reportFetchesInFlight = new Map();
+const reportCacheStats = { hits: 0, partial: 0, misses: 0 };
+
+// One live watcher per report code polls through the report cache and pushes changed fights over SSE.
+const LIVE_WATCH_INTERVAL_MS = LIVE_REPORT_RECHECK_MS + 5_000;
+const LIVE_HEARTBEAT_MS = 20_000;
+const liveWatchers = new Map();
+
+// Upstream WCL calls run through a small queue that pauses while the hourly point budget is spent.
+const WCL_MAX_CONCURRENCY = 2;
+const WCL_MAX_RETRIES = 3;
+const WCL_MAX_RETRY_WAIT_MS = 30_000;
+const RATE_LIMIT_REFRESH_MS = 60_000;
+const wclQueue = { active: 0, pending: [], pausedUntil: 0, timer: null };
+const rateLimitState = {
+  limitPerHour: null,
+  pointsSpentThisHour: null,
+  pointsResetIn: null,
+  checkedAt: 0,
+  refreshing: false,
+};
+
+// Prometheus metrics live in memory per process and are rendered by /metrics. WCL points per route are
+// estimated by splitting each rateLimitData delta across the routes that queried WCL in between.
+const LATENCY_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const metrics = {
+  httpRequests: new Map(),
+  httpDuration: new Map(),
+  upstreamRequests: new Map(),
+  upstreamDuration: new Map(),
+  reportCache: new Map(),
+  wclPoints: new Map(),
+};
+const wclQueriesSinceRefresh = new Map();
+
 const rawAllowedOrigins =
   process.env.LOGTIME_ALLOWED_ORIGINS ??
   process.env.logtime_allowed_origins ??
@@ -57,6 +167,272 @@ const devOriginPrefixes = [
   "https://[::1]",
 ];
 
+function logEvent(level, msg, fields = {}) {
+  if (LOG_LEVELS[level] < LOG_LEVEL) {
+    return;
+  }
+  const context = requestContext.getStore();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(context ? { requestId: context.id, route: context.route } : {}),
+    ...fields,
+  };
+  const write = level === "error" ? console.error : level === "warn" ? console.warn : console.log;
+  if (LOG_FORMAT === "text") {
+    const { time, level: _level, msg: _msg, ...rest } = entry;
+    const details = Object.keys(rest).length ? ` ${JSON.stringify(rest, serializeLogValue)}` : "";
+    write(`[logtime] ${msg}${details}`);
+    return;
+  }
+  write(JSON.stringify(entry, serializeLogValue));
+}
+
+function serializeLogValue(key, value) {
+  return value instanceof Error ? value.message : value;
+}
+
+// Runs a route handler inside its request's context, so nothing after it inherits that context.
+function withRequestContext(route, handler) {
+  return (req, res) => requestContext.run(beginRequest(req, res, route), () => handler(req, res));
+}
+
+/**
+ * Opens the request context for a handler: a request ID (an incoming `X-Request-Id` is kept when it looks
+ * sane), echoed in the response, and one summary log line plus metrics once the response is done.
+ */
+function beginRequest(req, res, route) {
+  if (req && requestContexts.has(req)) {
+    return requestContexts.get(req);
+  }
+  const incoming = String(req?.headers?.["x-request-id"] ?? "");
+  const context = {
+    id: /^[A-Za-z0-9._:-]{8,128}$/.test(incoming) ? incoming : randomUUID(),
+    route,
+    startedAt: performance.now(),
+    upstreamCalls: 0,
+    upstreamMs: 0,
+  };
+  if (req) {
+    requestContexts.set(req, context);
+  }
+  if (typeof res?.setHeader === "function") {
+    res.setHeader("X-Request-Id", context.id);
+  }
+  let logged = false;
+  const finish = () => {
+    if (logged) return;
+    logged = true;
+    const durationMs = performance.now() - context.startedAt;
+    const method = String(req?.method || "GET").toUpperCase();
+    const status = res?.statusCode ?? 0;
+    incrementMetric(metrics.httpRequests, { route, method, status: String(status) });
+    observeMetric(metrics.httpDuration, { route }, durationMs / 1000);
+    logEvent(status >= 500 ? "error" : status >= 400 ? "warn" : "info", "Request completed", {
+      requestId: context.id,
+      route,
+      method,
+      status,
+      durationMs: Math.round(durationMs),
+      upstreamCalls: context.upstreamCalls,
+      upstreamMs: Math.round(context.upstreamMs),
+    });
+  };
+  res?.once?.("finish", finish);
+  res?.once?.("close", finish);
+  return context;
+}
+
+function incrementMetric(series, labels, amount = 1) {
+  const key = formatMetricLabels(labels);
+  series.set(key, (series.get(key) ?? 0) + amount);
+}
+
+function observeMetric(series, labels, seconds) {
+  const key = formatMetricLabels(labels);
+  const histogram = series.get(key) ?? { buckets: LATENCY_BUCKETS_SECONDS.map(() => 0), sum: 0, count: 0 };
+  LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+    if (seconds <= bound) histogram.buckets[index] += 1;
+  });
+  histogram.sum += seconds;
+  histogram.count += 1;
+  series.set(key, histogram);
+}
+
+function formatMetricLabels(labels) {
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}="${escapeMetricLabel(value)}"`)
+    .join(",");
+}
+
+function escapeMetricLabel(value) {
+  return String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+// Prometheus text exposition format, version 0.0.4.
+function renderMetrics() {
+  const lines = [];
+  const header = (name, type, help) => lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  const sample = (name, labels, value) => lines.push(`${name}${labels ? `{${labels}}` : ""} ${value}`);
+  const counter = (name, help, series) => {
+    header(name, "counter", help);
+    series.forEach((value, labels) => sample(name, labels, Number(value.toFixed(3))));
+  };
+  const histogram = (name, help, series) => {
+    header(name, "histogram", help);
+    series.forEach(({ buckets, sum, count }, labels) => {
+      const prefix = labels ? `${labels},` : "";
+      LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+        sample(`${name}_bucket`, `${prefix}le="${bound}"`, buckets[index]);
+      });
+      sample(`${name}_bucket`, `${prefix}le="+Inf"`, count);
+      sample(`${name}_sum`, labels, Number(sum.toFixed(6)));
+      sample(`${name}_count`, labels, count);
+    });
+  };
+  const gauge = (name, help, value) => {
+    if (value == null) return;
+    header(name, "gauge", help);
+    sample(name, "", value);
+  };
+
+  counter("logtime_http_requests_total", "Proxy requests by route, method and status.", metrics.httpRequests);
+  histogram("logtime_http_request_duration_seconds", "Proxy request duration by route.", metrics.httpDuration);
+  counter(
+    "logtime_upstream_requests_total",
+    "Upstream calls by API, calling route and status.",
+    metrics.upstreamRequests,
+  );
+  histogram(
+    "logtime_upstream_request_duration_seconds",
+    "Upstream call latency by API.",
+    metrics.upstreamDuration,
+  );
+  counter(
+    "logtime_report_cache_requests_total",
+    "Report cache lookups by route and result.",
+    metrics.reportCache,
+  );
+  counter("logtime_wcl_points_spent_total", "Estimated WCL points spent by route.", metrics.wclPoints);
+  const { pointsSpentThisHour, limitPerHour } = rateLimitState;
+  gauge("logtime_wcl_points_spent_this_hour", "WCL points spent this hour.", pointsSpentThisHour);
+  gauge("logtime_wcl_points_limit_per_hour", "WCL hourly point budget.", limitPerHour);
+  gauge("logtime_wcl_queue_active", "WCL calls in flight.", wclQueue.active);
+  gauge("logtime_wcl_queue_pending", "WCL calls waiting in the queue.", wclQueue.pending.length);
+  gauge("logtime_live_watchers", "Reports with an open live stream.", liveWatchers.size);
+  gauge("logtime_report_cache_entries", "Report cache entries held in memory.", reportCache.size);
+  return `${lines.join("\n")}\n`;
+}
+
+// Replayed fixtures stand in for the real credentials.
+function hasWclCredentials() {
+  return Boolean(WCL_CLIENT_ID && WCL_CLIENT_SECRET) || UPSTREAM_MODE === "replay";
+}
+
+function hasYoutubeApiKey() {
+  return Boolean(YOUTUBE_API_KEY) || UPSTREAM_MODE === "replay";
+}
+
+/**
+ * `fetch` for every upstream API. Fixtures are keyed by method, URL (without API keys) and body, so the
+ * same GraphQL query with the same variables always maps to the same file.
+ */
+async function fetchUpstream(url, init = {}) {
+  const upstream = getUpstreamName(url);
+  const startedAt = performance.now();
+  let status = "error";
+  try {
+    const response = await fetchUpstreamResponse(url, init);
+    status = String(response.status);
+    return response;
+  } finally {
+    const durationMs = performance.now() - startedAt;
+    const context = requestContext.getStore();
+    if (context) {
+      context.upstreamCalls += 1;
+      context.upstreamMs += durationMs;
+    }
+    incrementMetric(metrics.upstreamRequests, { upstream, route: context?.route ?? "background", status });
+    observeMetric(metrics.upstreamDuration, { upstream }, durationMs / 1000);
+    logEvent("debug", "Upstream call", { upstream, status, durationMs: Math.round(durationMs) });
+  }
+}
+
+function getUpstreamName(url) {
+  const target = String(url);
+  if (target === GRAPHQL_URL) return "wcl";
+  if (target === USER_GRAPHQL_URL) return "wcl_user";
+  if (target === OAUTH_URL) return "wcl_oauth";
+  if (target.startsWith(YOUTUBE_API_URL)) return "youtube";
+  try {
+    const { hostname } = new URL(target);
+    return /battle\.net|blizzard/.test(hostname) ? "blizzard" : hostname;
+  } catch {
+    return "unknown";
+  }
+}
+
+async function fetchUpstreamResponse(url, init = {}) {
+  if (UPSTREAM_MODE === "live") {
+    return fetch(url, init);
+  }
+  const method = String(init.method ?? "GET").toUpperCase();
+  const safeUrl = redactUrl(String(url));
+  const body = typeof init.body === "string" ? init.body : "";
+  const hash = createHash("sha256").update(`${method} ${safeUrl}\n${body}`).digest("hex").slice(0, 16);
+  const { hostname, pathname } = new URL(safeUrl);
+  const label = `${hostname}${pathname}`.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  const fixturePath = path.join(UPSTREAM_FIXTURES_DIR, `${label}-${hash}.json`);
+
+  if (UPSTREAM_MODE === "replay") {
+    let fixture;
+    try {
+      fixture = JSON.parse(await readFile(fixturePath, "utf8"));
+    } catch {
+      throw new Error(
+        `No recorded upstream response for ${method} ${safeUrl} (${fixturePath}). Record it with LOGTIME_UPSTREAM_MODE=record.`,
+      );
+    }
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      headers: fixture.response.headers,
+    });
+  }
+
+  const response = await fetch(url, init);
+  const text = await response.text();
+  const headers = {};
+  ["content-type", "retry-after"].forEach((name) => {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  });
+  const fixture = {
+    request: { method, url: safeUrl, body: safeUrl === redactUrl(OAUTH_URL) ? "(redacted)" : body || null },
+    response: { status: response.status, headers, body: redactTokens(text) },
+  };
+  try {
+    await mkdir(UPSTREAM_FIXTURES_DIR, { recursive: true });
+    await writeFile(fixturePath, `${JSON.stringify(fixture, null, 2)}\n`);
+  } catch (error) {
+    logEvent("warn", "Failed to record upstream fixture", { path: fixturePath, error });
+  }
+  return new Response(text, { status: response.status, headers });
+}
+
+function redactUrl(url) {
+  const parsed = new URL(url);
+  if (parsed.searchParams.has("key")) {
+    parsed.searchParams.set("key", "redacted");
+  }
+  return parsed.toString();
+}
+
+// Recorded OAuth responses must not leak live tokens into fixture files.
+function redactTokens(text) {
+  return text.replace(/"(access_token|refresh_token)"\s*:\s*"[^"]*"/g, '"$1":"replay-token"');
+}
+
 async function getAccessToken() {
   const now = Date.now();
   if (tokenCache.accessToken && tokenCache.expiresAt > now + 10_000) {
@@ -64,7 +440,7 @@ async function getAccessToken() {
   }
 
   const credentials = Buffer.from(`${WCL_CLIENT_ID}:${WCL_CLIENT_SECRET}`).toString("base64");
-  const response = await fetch(OAUTH_URL, {
+  const response = await fetchUpstream(OAUTH_URL, {
     method: "POST",
     headers: {
       Authorization: `Basic ${credentials}`,
@@ -84,35 +460,231 @@ async function getAccessToken() {
   return tokenCache.accessToken;
 }
 
-async function callGraphQL(token, query, variables) {
-  const response = await fetch(GRAPHQL_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ query, variables }),
+async function getWclAuth(userAuth = null) {
+  if (userAuth) {
+    return userAuth;
+  }
+  return { accessToken: await getAccessToken(), graphqlUrl: GRAPHQL_URL, scope: null };
+}
+
+/** `auth` is the client-credentials token or a signed-in user's token; see getWclAuth. */
+async function callGraphQL(auth, query, variables) {
+  const data = await scheduleWclRequest(() => requestGraphQL(auth, query, variables));
+  // The point budget that matters for the shared queue is the client's, not a user's.
+  if (auth.graphqlUrl === GRAPHQL_URL) {
+    const route = requestContext.getStore()?.route ?? "background";
+    wclQueriesSinceRefresh.set(route, (wclQueriesSinceRefresh.get(route) ?? 0) + 1);
+    void refreshRateLimitData(auth);
+  }
+  return data;
+}
+
+/** Posts one GraphQL request, retrying network errors, 429s and 5xx responses with backoff. */
+async function requestGraphQL(auth, query, variables) {
+  for (let attempt = 0; ; attempt += 1) {
+    let response;
+    try {
+      response = await fetchUpstream(auth.graphqlUrl, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${auth.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ query, variables }),
+      });
+    } catch (error) {
+      if (attempt >= WCL_MAX_RETRIES) {
+        throw error;
+      }
+      await sleep(getBackoffMs(attempt));
+      continue;
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      const text = await response.text();
+      const waitMs = getRetryAfterMs(response) ?? getBackoffMs(attempt);
+      if (response.status === 429) {
+        wclQueue.pausedUntil = Math.max(wclQueue.pausedUntil, Date.now() + waitMs);
+      }
+      if (attempt >= WCL_MAX_RETRIES || waitMs > WCL_MAX_RETRY_WAIT_MS) {
+        if (response.status === 429) {
+          throw createRateLimitError(waitMs);
+        }
+        throw new Error(`GraphQL request failed: ${response.status} ${text}`);
+      }
+      logEvent("warn", "WCL request will be retried", { status: response.status, retryInMs: waitMs, attempt });
+      await sleep(waitMs);
+      continue;
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`GraphQL request failed: ${response.status} ${text}`);
+    }
+
+    const payload = await response.json();
+    if (payload.errors?.length) {
+      const message = payload.errors.map((err) => err.message).join("; ");
+      throw new Error(`GraphQL error: ${message}`);
+    }
+
+    return payload.data;
+  }
+}
+
+function scheduleWclRequest(task) {
+  return new Promise((resolve, reject) => {
+    wclQueue.pending.push({ task, resolve, reject });
+    drainWclQueue();
   });
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`GraphQL request failed: ${response.status} ${text}`);
+function drainWclQueue() {
+  while (wclQueue.active < WCL_MAX_CONCURRENCY && wclQueue.pending.length) {
+    const waitMs = wclQueue.pausedUntil - Date.now();
+    if (waitMs > WCL_MAX_RETRY_WAIT_MS) {
+      // Waiting out a spent hourly budget would hang the request; let the client retry later instead.
+      const error = createRateLimitError(waitMs);
+      wclQueue.pending.splice(0).forEach((job) => job.reject(error));
+      return;
+    }
+    if (waitMs > 0) {
+      wclQueue.timer ??= setTimeout(() => {
+        wclQueue.timer = null;
+        drainWclQueue();
+      }, waitMs);
+      return;
+    }
+    const job = wclQueue.pending.shift();
+    wclQueue.active += 1;
+    job
+      .task()
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        wclQueue.active -= 1;
+        drainWclQueue();
+      });
   }
+}
 
-  const payload = await response.json();
-  if (payload.errors?.length) {
-    const message = payload.errors.map((err) => err.message).join("; ");
-    throw new Error(`GraphQL error: ${message}`);
+async function refreshRateLimitData(auth) {
+  if (rateLimitState.refreshing || Date.now() - rateLimitState.checkedAt < RATE_LIMIT_REFRESH_MS) {
+    return;
+  }
+  rateLimitState.refreshing = true;
+  try {
+    const data = await scheduleWclRequest(() => requestGraphQL(auth, RATE_LIMIT_QUERY, {}));
+    const info = data?.rateLimitData ?? {};
+    const previousSpent = rateLimitState.pointsSpentThisHour;
+    rateLimitState.limitPerHour = asNumber(info.limitPerHour, null);
+    rateLimitState.pointsSpentThisHour = asNumber(info.pointsSpentThisHour, null);
+    attributeWclPoints(previousSpent, rateLimitState.pointsSpentThisHour);
+    rateLimitState.pointsResetIn = asNumber(info.pointsResetIn, null);
+    if (
+      rateLimitState.limitPerHour != null &&
+      rateLimitState.pointsSpentThisHour != null &&
+      rateLimitState.pointsSpentThisHour >= rateLimitState.limitPerHour
+    ) {
+      const resetMs = (rateLimitState.pointsResetIn ?? 60) * 1000;
+      wclQueue.pausedUntil = Math.max(wclQueue.pausedUntil, Date.now() + resetMs);
+      logEvent("warn", "WCL point budget spent; pausing upstream calls", { pauseMs: resetMs });
+    }
+  } catch (error) {
+    logEvent("warn", "Failed to read WCL rate limit data", { error });
+  } finally {
+    rateLimitState.checkedAt = Date.now();
+    rateLimitState.refreshing = false;
+  }
+}
+
+// Splits the points spent since the last reading across the routes that queried WCL in between.
+function attributeWclPoints(previousSpent, spent) {
+  const queries = Array.from(wclQueriesSinceRefresh.entries());
+  wclQueriesSinceRefresh.clear();
+  if (previousSpent == null || spent == null) {
+    return;
+  }
+  // The hourly counter resets; after a reset everything spent so far is new.
+  const delta = spent >= previousSpent ? spent - previousSpent : spent;
+  const total = queries.reduce((sum, [, count]) => sum + count, 0);
+  if (!delta || !total) {
+    return;
   }
+  queries.forEach(([route, count]) => incrementMetric(metrics.wclPoints, { route }, (delta * count) / total));
+}
+
+function createRateLimitError(waitMs) {
+  const error = new Error("Warcraft Logs rate limit reached.");
+  error.status = 429;
+  error.retryAfterSeconds = Math.max(1, Math.ceil(waitMs / 1000));
+  return error;
+}
+
+function getRetryAfterMs(response) {
+  const seconds = Number(response.headers?.get?.("retry-after"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+}
 
-  return payload.data;
+function getBackoffMs(attempt) {
+  return 1000 * 2 ** attempt + Math.floor(Math.random() * 250);
 }
 
-const REPORT_QUERY = `
-  query ReportFights($code: String!) {
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const CURRENT_USER_QUERY = `
+  query CurrentUser {
+    userData {
+      currentUser {
+        id
+        name
+      }
+    }
+  }
+`;
+
+const RATE_LIMIT_QUERY = `
+  query RateLimit {
+    rateLimitData {
+      limitPerHour
+      pointsSpentThisHour
+      pointsResetIn
+    }
+  }
+`;
+
+const GUILD_REPORTS_QUERY = `
+  query GuildReports(
+    $guildName: String!
+    $guildServerSlug: String!
+    $guildServerRegion: String!
+    $startTime: Float
+    $endTime: Float
+    $limit: Int
+  ) {
     reportData {
-      report(code: $code) {
+      reports(
+        guildName: $guildName
+        guildServerSlug: $guildServerSlug
+        guildServerRegion: $guildServerRegion
+        startTime: $startTime
+        endTime: $endTime
+        limit: $limit
+      ) {
+        data {
+          code
+          startTime
+        }
+      }
+    }
+  }
+`;
+
+// Report metadata shared by /api/report and /api/defensives; cached per report in the report cache.
+const REPORT_FIELDS = `
         startTime
+        endTime
         title
         zone { id name }
         owner { name }
@@ -122,6 +694,7 @@ const REPORT_QUERY = `
             name
             type
             subType
+            server
           }
         }
         fights {
@@ -131,6 +704,7 @@ const REPORT_QUERY = `
           startTime
           endTime
           kill
+          friendlyPlayers
           bossPercentage
           fightPercentage
           lastPhase
@@ -149,111 +723,276 @@ const REPORT_QUERY = `
             isIntermission
           }
         }
-      }
-    }
-  }
-`;
-
-const DEATH_EVENTS_QUERY = `
-  query DeathEvents($code: String!, $fightIDs: [Int!]!) {
-    reportData {
-      report(code: $code) {
-        events(dataType: Deaths, fightIDs: $fightIDs, translate: true) {
-          data
-          nextPageTimestamp
-        }
-      }
-    }
-  }
 `;
 
-const BLOODLUST_ABILITY_IDS = [2825, 32182, 80353, 90355, 178207, 204361, 264667, 390386];
-const BLOODLUST_FILTER = `ability.id IN (${BLOODLUST_ABILITY_IDS.join(", ")})`;
+const REPORT_SECTION = { alias: null, field: REPORT_FIELDS };
 
-const BLOODLUST_EVENTS_QUERY = `
-  query BloodlustEvents($code: String!, $fightIDs: [Int!]!) {
-    reportData {
-      report(code: $code) {
-        events(
-          dataType: Casts
-          fightIDs: $fightIDs
-          translate: true
-          filterExpression: "${BLOODLUST_FILTER}"
-        ) {
-          data
-          nextPageTimestamp
-        }
-      }
-    }
-  }
-`;
+// Arguments a section passes as GraphQL variables, with their schema types.
+const SECTION_ARGUMENT_TYPES = {
+  fightIDs: "[Int]",
+  killType: "KillType",
+  startTime: "Float",
+  endTime: "Float",
+  hostilityType: "HostilityType",
+  filterExpression: "String",
+};
 
-const DEFENSIVE_ABILITY_IDS = [
-  48743, 49039, 48792, 51052, 48707, 49998, 196718, 196555, 198589, 319454, 108238, 22812,
-  22842, 5487, 61336, 374227, 363916, 374348, 360827, 186265, 109304, 264735, 272679,
-  414658, 45438, 55342, 110960, 414660, 342245, 342247, 235450, 235313, 235219, 11426,
-  115203, 122783, 122470, 471195, 633, 1022, 642, 6940, 498, 403876, 184662, 108968, 15286,
-  19236, 586, 47585, 5277, 31224, 185311, 1966, 198103, 108271, 108281, 108270, 104773,
-  108416, 452930, 6789, 234153, 383762, 97462, 202168, 23920, 386208, 118038, 190456,
-  184364, 6262, 431416, 1238009,
+// Sections a request may narrow a handler to (`?include=deaths,tracked`); `lust` names the tracked lanes.
+const REPORT_INCLUDE_SECTIONS = ["deaths", "tracked"];
+const REPORT_INCLUDE_ALIASES = { lust: "tracked", bloodlust: "tracked" };
+const DEFENSIVE_INCLUDE_SECTIONS = ["players", "abilities"];
+
+// WCL returns at most EVENT_PAGE_SIZE events per page; EVENT_PAGE_LIMIT bounds the pages per query.
+const EVENT_PAGE_SIZE = 10000;
+const EVENT_PAGE_LIMIT = 20;
+
+// Lane whose casts are also returned as the fight's `bloodlusts`, the field clients read before lanes existed.
+const BLOODLUST_GROUP_ID = "bloodlust";
+// Each group becomes one timeline lane. Icons are zamimg slugs or full URLs; `icons` overrides per ability.
+const DEFAULT_TRACKED_ABILITY_GROUPS = [
+  {
+    id: BLOODLUST_GROUP_ID,
+    label: "Bloodlust",
+    color: "#38bdf8",
+    icon: "spell_nature_bloodlust",
+    abilityIds: [2825, 32182, 80353, 90355, 178207, 204361, 264667, 390386],
+    icons: {
+      2825: "spell_nature_bloodlust",
+      32182: "ability_shaman_heroism",
+      80353: "spell_arcane_timewarp",
+      90355: "spell_shadow_lifedrain",
+      178207: "inv_misc_drum_05",
+      204361: "inv_misc_drum_05",
+      264667: "ability_hunter_bestialdiscipline",
+      390386: "ability_evoker_furyoftheaspects",
+    },
+  },
+  {
+    id: "raid-cooldowns",
+    label: "Raid cooldowns",
+    color: "#a78bfa",
+    icon: "ability_warrior_rallyingcry",
+    abilityIds: [98008, 97462, 31821, 62618, 64843, 740, 115310, 51052, 196718, 108280, 363534],
+    icons: {
+      98008: "spell_shaman_spiritlink",
+      97462: "ability_warrior_rallyingcry",
+      31821: "spell_holy_auramastery",
+      62618: "spell_holy_powerwordbarrier",
+      64843: "spell_holy_divinehymn",
+      740: "spell_nature_tranquility",
+      115310: "spell_monk_revival",
+      51052: "spell_deathknight_antimagiczone",
+      196718: "ability_demonhunter_darkness",
+      108280: "ability_shaman_healingtide",
+      363534: "ability_evoker_rewind",
+    },
+  },
+  {
+    id: "battle-res",
+    label: "Battle res",
+    color: "#4ade80",
+    icon: "spell_nature_reincarnation",
+    abilityIds: [20484, 61999, 20707, 391054],
+    icons: {
+      20484: "spell_nature_reincarnation",
+      61999: "spell_shadow_deadofnight",
+      20707: "spell_shadow_soulgem",
+    },
+  },
 ];
-const DEFENSIVE_FILTER = `ability.id IN (${DEFENSIVE_ABILITY_IDS.join(", ")})`;
+const TRACKED_GROUP_LIMIT = 12;
+const TRACKED_ABILITY_LIMIT = 100;
+const TRACKED_COLOR_PALETTE = ["#38bdf8", "#a78bfa", "#4ade80", "#fbbf24", "#f472b6", "#fb923c"];
+const serverTrackedAbilityGroups = loadTrackedAbilityConfig();
+// Cached tracked casts per fight: the server's own set is always kept, plus this many client sets.
+const serverTrackedKey = getTrackedAbilitiesKey(serverTrackedAbilityGroups);
+const TRACKED_CACHE_KEYS_PER_FIGHT = 4;
+
+// The defensive catalog is data, not code: edit the JSON (or point LOGTIME_DEFENSIVE_CATALOG elsewhere)
+// and POST /api/defensives/catalog with the admin key to swap it in without a restart.
+const DEFENSIVE_CATALOG_VERSION = 1;
+const DEFENSIVE_CATALOG_SOURCE =
+  process.env.LOGTIME_DEFENSIVE_CATALOG ??
+  process.env.logtime_defensive_catalog ??
+  new URL("./data/defensive-catalog.json", import.meta.url);
+const DEFENSIVE_CATEGORIES = ["mitigation", "personal", "external", "raid"];
+// Class and spec names as Warcraft Logs spells them (actor `subType`, table `spec`).
+const WOW_CLASS_SPECS = {
+  DeathKnight: ["Blood", "Frost", "Unholy"],
+  DemonHunter: ["Havoc", "Vengeance"],
+  Druid: ["Balance", "Feral", "Guardian", "Restoration"],
+  Evoker: ["Devastation", "Preservation", "Augmentation"],
+  Hunter: ["BeastMastery", "Marksmanship", "Survival"],
+  Mage: ["Arcane", "Fire", "Frost"],
+  Monk: ["Brewmaster", "Mistweaver", "Windwalker"],
+  Paladin: ["Holy", "Protection", "Retribution"],
+  Priest: ["Discipline", "Holy", "Shadow"],
+  Rogue: ["Assassination", "Outlaw", "Subtlety"],
+  Shaman: ["Elemental", "Enhancement", "Restoration"],
+  Warlock: ["Affliction", "Demonology", "Destruction"],
+  Warrior: ["Arms", "Fury", "Protection"],
+};
+// Tank and healer specs; every other spec in WOW_CLASS_SPECS is a damage dealer. The names are unique
+// enough across classes (both Protection specs tank, both Holy specs heal) to skip the class.
+const WOW_SPEC_ROLES = {
+  tank: ["Blood", "Vengeance", "Guardian", "Brewmaster", "Protection"],
+  healer: ["Restoration", "Preservation", "Mistweaver", "Holy", "Discipline"],
+};
+const DEFENSIVE_ROLES = ["tank", "healer", "dps"];
+// Reports one trends request may cover; a guild search keeps the most recent ones.
+const DEFENSIVE_TRENDS_REPORT_LIMIT = 12;
+const WCL_REGIONS = ["us", "eu", "kr", "tw", "cn"];
+let defensiveCatalog = loadDefensiveCatalog(DEFENSIVE_CATALOG_SOURCE);
+
+/**
+ * Builds the /api/report payload from the report cache. Fights whose events are already cached for
+ * the requested trash/tracked settings are reused, so live refreshes only query newly finished fights.
+ * Reports loaded with a user's token are cached separately per user. `include` limits the payload to
+ * the listed event sections.
+ */
+export async function fetchReport(
+  reportId,
+  {
+    include = new Set(REPORT_INCLUDE_SECTIONS),
+    includeTrash = false,
+    trackedAbilities = serverTrackedAbilityGroups,
+    live = false,
+    bust = false,
+    userAuth = null,
+  } = {},
+) {
+  const trackedKey = getTrackedAbilitiesKey(trackedAbilities);
+  const cacheKey = getReportCacheKey(reportId, userAuth);
+  const includeKey = REPORT_INCLUDE_SECTIONS.filter((section) => include.has(section)).join(",");
+  const flags = [includeTrash, live, bust].map((flag) => (flag ? 1 : 0)).join("");
+  const requestKey = `${cacheKey}|${includeKey}|${trackedKey}|${flags}`;
+  // Raiders opening the same report at once share one upstream fetch.
+  if (reportFetchesInFlight.has(requestKey)) {
+    return reportFetchesInFlight.get(requestKey);
+  }
+  const pending = buildReportPayload(reportId, {
+    include,
+    includeTrash,
+    trackedAbilities,
+    trackedKey,
+    cacheKey,
+    live,
+    bust,
+    userAuth,
+  }).finally(() => reportFetchesInFlight.delete(requestKey));
+  reportFetchesInFlight.set(requestKey, pending);
+  return pending;
+}
 
-const DEFENSIVE_TABLE_QUERY = `
-  query DefensiveUsage($code: String!, $fightIDs: [Int!]!) {
-    reportData {
-      report(code: $code) {
-        table(
-          dataType: Casts
-          viewBy: Source
-          fightIDs: $fightIDs
-          translate: true
-          filterExpression: "${DEFENSIVE_FILTER}"
-        )
-      }
+async function buildReportPayload(
+  reportId,
+  { include, includeTrash, trackedAbilities, trackedKey, cacheKey, live, bust, userAuth },
+) {
+  const kinds = getReportEventKinds(include, trackedAbilities, trackedKey);
+  const killType = includeTrash ? "All" : "Encounters";
+  // When the report itself has to be (re)fetched, the first event pages after the cached fights ride along.
+  let prefetchStart = 0;
+  const {
+    entry,
+    status: entryStatus,
+    sections: prefetched,
+  } = await loadReportCacheEntry(reportId, {
+    cacheKey,
+    live,
+    bust,
+    userAuth,
+    sections: (cached) => {
+      prefetchStart = getCachedEventsEnd(cached, kinds);
+      return createEventSections(kinds, { killType, startTime: prefetchStart });
+    },
+  });
+  const report = entry.report;
+  const fights = report.fights ?? [];
+  // Trash fights (encounterID 0) only get their events fetched when the client asked for them.
+  const eventFightIDs = fights
+    .filter((fight) => includeTrash || (fight.encounterID ?? 0) > 0)
+    .map((fight) => fight.id);
+  const actors = report.masterData?.actors ?? [];
+  const actorMap = createActorMap(actors);
+  const fightsById = new Map(fights.map((fight) => [fight.id, fight]));
+  const toFights = (ids) => ids.map((id) => fightsById.get(id)).filter(Boolean);
+
+  const missing = new Map();
+  kinds.forEach((kind) => {
+    const ids = eventFightIDs.filter((id) => !kind.read(entry.events[id]));
+    if (ids.length) {
+      missing.set(kind, ids);
     }
-  }
-`;
-
-const DEFENSIVE_SUMMARY_QUERY = `
-  query DefensiveAbilitySummary($code: String!, $fightIDs: [Int!]!) {
-    reportData {
-      report(code: $code) {
-        table(
-          dataType: Casts
-          viewBy: Ability
-          fightIDs: $fightIDs
-          translate: true
-          filterExpression: "${DEFENSIVE_FILTER}"
+  });
+  // Events of fights past a page-limit cutoff are served but not cached, so the next request retries them.
+  const partial = new Map(kinds.map((kind) => [kind, new Map()]));
+  const warnings = [];
+  if (missing.size) {
+    const auth = await getWclAuth(userAuth);
+    const isCovered = (id) => prefetched != null && (fightsById.get(id)?.startTime ?? 0) >= prefetchStart;
+    // Fights the prefetch window missed are fetched together, one batched first page for every kind.
+    const remainingKinds = Array.from(missing.keys()).filter((kind) =>
+      missing.get(kind).some((id) => !isCovered(id)),
+    );
+    const remaining = new Set(remainingKinds.flatMap((kind) => missing.get(kind).filter((id) => !isCovered(id))));
+    const remainingWindow = remaining.size ? getFightWindow(toFights(Array.from(remaining))) : null;
+    const remainingPages = remainingKinds.length
+      ? await fetchReportSections(
+          auth,
+          reportId,
+          "ReportEvents",
+          createEventSections(remainingKinds, remainingWindow),
         )
+      : null;
+    const getFightEvents = (id) => {
+      entry.events[id] ??= { endTime: fightsById.get(id)?.endTime ?? null, tracked: {} };
+      return entry.events[id];
+    };
+    for (const [kind, ids] of missing) {
+      const covered = ids.filter(isCovered);
+      const others = ids.filter((id) => !isCovered(id));
+      const batches = [];
+      if (covered.length) {
+        const window = { killType, startTime: prefetchStart };
+        batches.push([covered, await fetchEventKind(auth, reportId, kind, window, actorMap, prefetched)]);
+      }
+      if (others.length) {
+        const result = await fetchEventKind(auth, reportId, kind, remainingWindow, actorMap, remainingPages);
+        batches.push([others, result]);
+      }
+      for (const [batchIds, result] of batches) {
+        const isComplete = (id) =>
+          result.cutoff == null || (fightsById.get(id)?.endTime ?? Infinity) <= result.cutoff;
+        batchIds.forEach((id) => {
+          const events = result.byFight.get(id) ?? [];
+          if (isComplete(id)) {
+            kind.write(getFightEvents(id), events);
+          } else {
+            partial.get(kind).set(id, events);
+          }
+        });
+      }
+      if (partial.get(kind).size) {
+        warnings.push(describeEventCutoff(kind.label, partial.get(kind).size));
       }
     }
+    await saveReportCacheEntry(entry);
   }
-`;
-
-
-async function fetchReport(reportId) {
-  const token = await getAccessToken();
-  const data = await callGraphQL(token, REPORT_QUERY, { code: reportId });
-  const report = data?.reportData?.report;
-  if (!report) {
-    throw new Error("Report not found or inaccessible.");
-  }
-
-  const fights = report.fights ?? [];
-  const bossFightIDs = fights.filter((fight) => (fight.encounterID ?? 0) > 0).map((fight) => fight.id);
-  const actors = report.masterData?.actors ?? [];
-  const actorMap = createActorMap(actors);
-  const deathMap = await fetchDeathEvents(reportId, token, bossFightIDs, actorMap);
-  const bloodlustMap = await fetchBloodlustEvents(reportId, token, bossFightIDs, actorMap);
 
   const phaseMetadata = buildPhaseMetadata(report.phases ?? []);
-  const enrichedFights = fights.map((fight) => ({
-    ...fight,
-    deaths: deathMap.get(fight.id) ?? [],
-    bloodlusts: bloodlustMap.get(fight.id) ?? [],
-    phaseMetadata: serializePhaseMetadata(phaseMetadata.get(fight.encounterID ?? null)),
-  }));
+  const readEvents = (kind, fightId) =>
+    kind.read(entry.events[fightId]) ?? partial.get(kind).get(fightId) ?? [];
+  const enrichedFights = fights.map((fight) => {
+    const sections = Object.fromEntries(kinds.map((kind) => [kind.field, readEvents(kind, fight.id)]));
+    return {
+      ...fight,
+      ...sections,
+      ...(sections.trackedEvents
+        ? { bloodlusts: sections.trackedEvents.filter((event) => event.group === BLOODLUST_GROUP_ID) }
+        : {}),
+      phaseMetadata: serializePhaseMetadata(phaseMetadata.get(fight.encounterID ?? null)),
+    };
+  });
 
   const simplifiedActors = actors.map((actor) => ({
     id: actor?.id ?? null,
@@ -262,76 +1001,732 @@ async function fetchReport(reportId) {
     subType: actor?.subType ?? null,
   }));
 
+  const cacheStatus = entryStatus === "hit" && missing.size > 0 ? "partial" : entryStatus;
+  reportCacheStats[cacheStatus === "hit" ? "hits" : cacheStatus === "partial" ? "partial" : "misses"] += 1;
+  recordReportCacheResult(cacheStatus);
   return {
+    code: reportId,
     title: report.title ?? null,
     owner: report.owner?.name ?? null,
     zone: report.zone ?? null,
+    include: REPORT_INCLUDE_SECTIONS.filter((section) => include.has(section)),
     fights: enrichedFights,
     actors: simplifiedActors,
+    trackedAbilities: trackedAbilities.map(({ id, label, color, icon, hostile }) => ({
+      id,
+      label,
+      color,
+      icon: toIconUrl(icon),
+      hostile,
+    })),
     startTime: report.startTime ?? null,
+    warnings,
+    cache: {
+      status: cacheStatus,
+      finished: entry.finished,
+      savedAt: entry.savedAt,
+    },
   };
 }
 
-async function fetchDeathEvents(reportId, token, fightIDs, actorMap) {
-  if (!fightIDs.length) {
-    return new Map();
+/**
+ * Finished reports are served from the cache indefinitely unless a live session asks. Live reports
+ * re-fetch the report fields at most every LIVE_REPORT_RECHECK_MS and keep the cached events of fights
+ * whose end time did not change. `sections(cached)` lists extra aliased sections to fetch in the same
+ * request whenever the report is re-fetched; their raw results come back as `sections` (null on a hit).
+ */
+async function loadReportCacheEntry(
+  reportId,
+  { cacheKey = reportId, live = false, bust = false, userAuth = null, sections = null } = {},
+) {
+  const cached = bust ? null : await readReportCacheEntry(cacheKey);
+  if (cached && ((cached.finished && !live) || Date.now() - cached.checkedAt < LIVE_REPORT_RECHECK_MS)) {
+    return { entry: cached, status: "hit", sections: null };
+  }
+
+  const auth = await getWclAuth(userAuth);
+  const extraSections = sections ? sections(cached) : [];
+  const report = await fetchReportSections(auth, reportId, "ReportFights", [REPORT_SECTION, ...extraSections]);
+  if (!report) {
+    throw new Error("Report not found or inaccessible.");
   }
-  const data = await callGraphQL(token, DEATH_EVENTS_QUERY, { code: reportId, fightIDs });
-  const events = data?.reportData?.report?.events?.data ?? [];
-  const byFight = new Map();
-  for (const event of events) {
-    const fightId = event.fightID ?? event.fight ?? null;
-    if (!fightId) continue;
-    let resolvedName = event?.target?.name;
-    if (!resolvedName) {
-      const actorId = event?.targetID ?? event?.target?.id ?? null;
-      const actor = actorId != null ? actorMap.get(actorId) : null;
-      resolvedName = actor?.name || event?.target?.guid || "Unknown";
+  const sectionData = {};
+  for (const section of extraSections) {
+    sectionData[section.alias] = report[section.alias] ?? null;
+    delete report[section.alias];
+  }
+
+  const events = {};
+  for (const fight of report.fights ?? []) {
+    const previous = cached?.events?.[fight.id];
+    if (previous && previous.endTime === (fight.endTime ?? null)) {
+      events[fight.id] = previous;
     }
-    if (!event.target) {
-      event.target = {};
+  }
+  const now = Date.now();
+  const entry = {
+    version: REPORT_CACHE_VERSION,
+    key: cacheKey,
+    code: reportId,
+    savedAt: now,
+    checkedAt: now,
+    finished: typeof report.endTime === "number" && now - report.endTime > FINISHED_REPORT_AGE_MS,
+    report,
+    events,
+  };
+  await saveReportCacheEntry(entry);
+  return { entry, status: cached ? "partial" : "miss", sections: sectionData };
+}
+
+async function readReportCacheEntry(cacheKey) {
+  if (reportCache.has(cacheKey)) {
+    return reportCache.get(cacheKey);
+  }
+  if (!REPORT_CACHE_DIR) {
+    return null;
+  }
+  try {
+    const entry = JSON.parse(await readFile(getReportCachePath(cacheKey), "utf8"));
+    if (entry?.version !== REPORT_CACHE_VERSION || entry.key !== cacheKey || !entry.report) {
+      return null;
     }
-    event.target.name = resolvedName || "Unknown";
-    if (!byFight.has(fightId)) {
-      byFight.set(fightId, []);
+    rememberReportCacheEntry(entry);
+    return entry;
+  } catch (error) {
+    if (error?.code !== "ENOENT") {
+      logEvent("warn", "Ignoring unreadable report cache file", { cacheKey, error });
     }
-    byFight.get(fightId).push(event);
+    return null;
   }
-  return byFight;
 }
 
-async function fetchBloodlustEvents(reportId, token, fightIDs, actorMap) {
-  if (!fightIDs.length) {
-    return new Map();
+async function saveReportCacheEntry(entry) {
+  entry.savedAt = Date.now();
+  rememberReportCacheEntry(entry);
+  if (!REPORT_CACHE_DIR) {
+    return;
   }
-  const data = await callGraphQL(token, BLOODLUST_EVENTS_QUERY, { code: reportId, fightIDs });
-  const events = data?.reportData?.report?.events?.data ?? [];
-  const byFight = new Map();
-  for (const event of events) {
-    const fightId = event.fightID ?? event.fight ?? null;
-    if (!fightId || typeof event.timestamp !== "number") continue;
-    const sourceId = event?.sourceID ?? event?.source?.id ?? null;
-    const actor = sourceId != null ? actorMap.get(sourceId) : null;
-    const sourceName = event?.source?.name || actor?.name || event?.source?.guid || "Unknown";
-    const abilityName = event?.ability?.name || "Bloodlust";
-    const abilityId = getNumericId(
-      event?.abilityGameID ??
-        event?.ability?.id ??
-        event?.ability?.abilityGameID ??
-        event?.ability?.guid ??
-        event?.abilityID ??
-        event?.ability?.ability,
+  const filePath = getReportCachePath(entry.key);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await mkdir(REPORT_CACHE_DIR, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(entry));
+    await rename(tempPath, filePath);
+  } catch (error) {
+    logEvent("warn", "Failed to write report cache file", { cacheKey: entry.key, error });
+  }
+}
+
+function recordReportCacheResult(result) {
+  incrementMetric(metrics.reportCache, { route: requestContext.getStore()?.route ?? "background", result });
+}
+
+function rememberReportCacheEntry(entry) {
+  reportCache.delete(entry.key);
+  reportCache.set(entry.key, entry);
+  if (reportCache.size > REPORT_CACHE_MEMORY_LIMIT) {
+    reportCache.delete(reportCache.keys().next().value);
+  }
+}
+
+function getReportCachePath(cacheKey) {
+  return path.join(REPORT_CACHE_DIR, `${cacheKey.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+// Private reports must never leak to other visitors, so user-token entries get their own key.
+function getReportCacheKey(reportId, userAuth) {
+  return userAuth?.scope ? `${reportId}~${userAuth.scope}` : reportId;
+}
+
+function resolveReportCacheDir() {
+  const configured = process.env.LOGTIME_CACHE_DIR ?? process.env.logtime_cache_dir ?? null;
+  if (configured === "off") {
+    return null;
+  }
+  // Serverless functions can only write below /tmp.
+  return path.resolve(configured || (process.env.VERCEL ? "/tmp/logtime-cache" : ".cache/logtime"));
+}
+
+function getTrackedAbilitiesKey(groups) {
+  const signature = groups.map(({ id, abilityIds, hostile, icon, icons }) => [id, abilityIds, hostile, icon, icons]);
+  return createHash("sha1").update(JSON.stringify(signature)).digest("hex").slice(0, 12);
+}
+
+function subscribeLiveWatcher(reportId, subscriber) {
+  const key = getReportCacheKey(reportId, subscriber.userAuth);
+  let watcher = liveWatchers.get(key);
+  if (!watcher) {
+    watcher = { key, reportId, subscribers: new Set(), polling: false };
+    // Polls log and count under their own context instead of the request that opened the watcher.
+    const context = { id: `live-${key}`, route: "/api/report/live", upstreamCalls: 0, upstreamMs: 0 };
+    watcher.timer = setInterval(
+      () => requestContext.run(context, () => void pollLiveWatcher(watcher)),
+      LIVE_WATCH_INTERVAL_MS,
+    );
+    watcher.heartbeat = setInterval(() => {
+      watcher.subscribers.forEach((entry) => entry.res.write(": ping\n\n"));
+    }, LIVE_HEARTBEAT_MS);
+    liveWatchers.set(key, watcher);
+    logEvent("info", "Live watcher started", { reportId });
+  }
+  watcher.subscribers.add(subscriber);
+  void pushLiveFights(watcher, subscriber);
+}
+
+function unsubscribeLiveWatcher(reportId, subscriber) {
+  const key = getReportCacheKey(reportId, subscriber.userAuth);
+  const watcher = liveWatchers.get(key);
+  if (!watcher) {
+    return;
+  }
+  watcher.subscribers.delete(subscriber);
+  if (!watcher.subscribers.size) {
+    clearInterval(watcher.timer);
+    clearInterval(watcher.heartbeat);
+    liveWatchers.delete(key);
+    logEvent("info", "Live watcher stopped", { reportId });
+  }
+}
+
+async function pollLiveWatcher(watcher) {
+  if (watcher.polling) {
+    return;
+  }
+  watcher.polling = true;
+  try {
+    // Subscribers with the same settings share the cached payload, so only the first one reaches WCL.
+    for (const subscriber of watcher.subscribers) {
+      await pushLiveFights(watcher, subscriber);
+    }
+  } finally {
+    watcher.polling = false;
+  }
+}
+
+async function pushLiveFights(watcher, subscriber) {
+  try {
+    const { cache, ...report } = await fetchReport(watcher.reportId, {
+      include: subscriber.include,
+      includeTrash: subscriber.includeTrash,
+      trackedAbilities: subscriber.trackedAbilities,
+      live: true,
+      userAuth: subscriber.userAuth,
+    });
+    const signatures = new Map(report.fights.map((fight) => [fight.id, JSON.stringify(fight)]));
+    if (!subscriber.sent.size) {
+      writeSseEvent(subscriber.res, "snapshot", report);
+    } else {
+      const changed = report.fights.filter((fight) => subscriber.sent.get(fight.id) !== signatures.get(fight.id));
+      if (changed.length) {
+        writeSseEvent(subscriber.res, "fights", { code: report.code, fights: changed, warnings: report.warnings });
+      }
+    }
+    subscriber.sent = signatures;
+  } catch (error) {
+    logEvent("warn", "Live update failed", { reportId: watcher.reportId, error });
+    writeSseEvent(subscriber.res, "problem", {
+      error: error?.message || "Live update failed.",
+      retryAfterSeconds: error?.retryAfterSeconds ?? null,
+    });
+  }
+}
+
+function writeSseEvent(res, event, payload) {
+  if (res.writableEnded) {
+    return;
+  }
+  res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+}
+
+function setReportCacheHeaders(res, cache) {
+  if (!cache || typeof res?.setHeader !== "function") {
+    return;
+  }
+  res.setHeader("X-Logtime-Cache", cache.status);
+  res.setHeader("Last-Modified", new Date(cache.savedAt).toUTCString());
+  res.setHeader("Cache-Control", cache.finished ? "private, max-age=86400" : "no-cache");
+}
+
+/**
+ * Composes one `report(code:)` query out of aliased sections so a handler pays a single round trip for
+ * the report fields, event pages and tables it needs. Returns the raw report object keyed by alias.
+ */
+async function fetchReportSections(auth, reportId, name, sections) {
+  if (!sections.length) {
+    return {};
+  }
+  const declarations = ["$code: String!"];
+  const variables = { code: reportId };
+  for (const section of sections) {
+    for (const [key, { type, value }] of Object.entries(section.variables ?? {})) {
+      declarations.push(`$${key}: ${type}`);
+      variables[key] = value;
+    }
+  }
+  const query = `
+  query ${name}(${declarations.join(", ")}) {
+    reportData {
+      report(code: $code) {
+${sections.map((section) => section.field).join("\n")}
+      }
+    }
+  }
+`;
+  const data = await callGraphQL(auth, query, variables);
+  return data?.reportData?.report ?? null;
+}
+
+function createEventsSection(alias, options) {
+  const limit = `limit: ${EVENT_PAGE_SIZE}`;
+  return createReportSection(alias, "events", options, limit, "{ data nextPageTimestamp }");
+}
+
+function createTableSection(alias, options) {
+  return createReportSection(alias, "table", options, options.viewBy ? `viewBy: ${options.viewBy}` : "", "");
+}
+
+// Enum arguments are inlined; everything else becomes a variable prefixed with the section alias.
+function createReportSection(alias, field, options, extraArgument, selection) {
+  const args = [`dataType: ${options.dataType}`, extraArgument, "translate: true"].filter(Boolean);
+  const variables = {};
+  for (const [name, type] of Object.entries(SECTION_ARGUMENT_TYPES)) {
+    if (options[name] == null) continue;
+    variables[`${alias}_${name}`] = { type, value: options[name] };
+    args.push(`${name}: $${alias}_${name}`);
+  }
+  return { alias, field: `        ${alias}: ${field}(${args.join(", ")}) ${selection}`.trimEnd(), variables };
+}
+
+function createEventSections(kinds, window) {
+  return kinds.flatMap((kind) =>
+    kind.requests.map((request) => createEventsSection(request.alias, { ...request.options, ...window })),
+  );
+}
+
+/**
+ * The event sections /api/report can serve. Each kind lists its events queries, how their events are
+ * filed per fight, and where the fight's cache entry keeps them.
+ */
+function getReportEventKinds(include, trackedAbilities, trackedKey) {
+  const kinds = [];
+  if (include.has("deaths")) {
+    kinds.push({
+      label: "Death",
+      field: "deaths",
+      requests: [{ alias: "deaths", options: { dataType: "Deaths" }, collect: collectDeathEvents }],
+      read: (fightEvents) => fightEvents?.deaths,
+      write: (fightEvents, events) => {
+        fightEvents.deaths = events;
+      },
+    });
+  }
+  if (include.has("tracked")) {
+    kinds.push({
+      label: "Tracked cast",
+      field: "trackedEvents",
+      requests: getTrackedEventRequests(trackedAbilities),
+      read: (fightEvents) => fightEvents?.tracked?.[trackedKey],
+      write: (fightEvents, events) => {
+        delete fightEvents.tracked[trackedKey];
+        fightEvents.tracked[trackedKey] = events;
+        evictTrackedCacheKeys(fightEvents.tracked);
+      },
+    });
+  }
+  return kinds;
+}
+
+// Keys keep insertion order and writes re-insert theirs, so the least recently fetched sets go first.
+function evictTrackedCacheKeys(tracked) {
+  const clientKeys = Object.keys(tracked).filter((key) => key !== serverTrackedKey);
+  clientKeys.slice(0, Math.max(0, clientKeys.length - TRACKED_CACHE_KEYS_PER_FIGHT)).forEach((key) => {
+    delete tracked[key];
+  });
+}
+
+// One query per hostility side; every event is then filed under each group that lists its ability.
+function getTrackedEventRequests(groups) {
+  return [false, true].flatMap((hostile) => {
+    const sideGroups = groups.filter((group) => Boolean(group.hostile) === hostile);
+    const abilityIds = Array.from(new Set(sideGroups.flatMap((group) => group.abilityIds)));
+    if (!abilityIds.length) {
+      return [];
+    }
+    return [
+      {
+        alias: hostile ? "trackedEnemies" : "tracked",
+        options: {
+          dataType: "Casts",
+          hostilityType: hostile ? "Enemies" : "Friendlies",
+          filterExpression: `ability.id IN (${abilityIds.join(", ")})`,
+        },
+        collect: (events, byFight, actorMap) => collectTrackedEvents(events, byFight, actorMap, sideGroups),
+      },
+    ];
+  });
+}
+
+// End of the last fight whose events are cached for every requested kind; later fights are new.
+function getCachedEventsEnd(cached, kinds) {
+  let end = 0;
+  for (const fight of cached?.report?.fights ?? []) {
+    const fightEvents = cached.events?.[fight.id];
+    if (fightEvents && kinds.every((kind) => kind.read(fightEvents))) {
+      end = Math.max(end, fight.endTime ?? 0);
+    }
+  }
+  return end;
+}
+
+function getFightWindow(fights) {
+  return {
+    fightIDs: fights.map((fight) => fight.id),
+    startTime: Math.min(...fights.map((fight) => fight.startTime ?? 0)),
+    endTime: Math.max(...fights.map((fight) => fight.endTime ?? 0)),
+  };
+}
+
+/**
+ * Pages every events query of `kind` across `window` and files the events per fight. `firstPages` holds
+ * pages that already arrived with a batched query, keyed by section alias.
+ */
+async function fetchEventKind(auth, reportId, kind, window, actorMap, firstPages = null) {
+  const byFight = new Map();
+  let cutoff = null;
+  for (const request of kind.requests) {
+    const result = await fetchEventPages(
+      auth,
+      reportId,
+      { ...request.options, ...window },
+      firstPages?.[request.alias] ?? null,
     );
+    if (result.cutoff != null) {
+      cutoff = cutoff == null ? result.cutoff : Math.min(cutoff, result.cutoff);
+    }
+    request.collect(result.events, byFight, actorMap);
+  }
+  return { byFight, cutoff };
+}
+
+function collectDeathEvents(events, byFight, actorMap) {
+  for (const event of events) {
+    const fightId = event.fightID ?? event.fight ?? null;
+    if (!fightId) continue;
+    const actorId = event?.targetID ?? event?.target?.id ?? null;
+    const actor = actorId != null ? actorMap.get(actorId) : null;
+    const resolvedName = event?.target?.name || actor?.name || event?.target?.guid || "Unknown";
+    if (!event.target) {
+      event.target = {};
+    }
+    event.target.name = resolvedName;
+    event.target.type = event.target.type ?? actor?.type ?? null;
     if (!byFight.has(fightId)) {
       byFight.set(fightId, []);
     }
-    byFight.get(fightId).push({
-      timestamp: event.timestamp,
-      source: { name: sourceName },
-      ability: { name: abilityName, id: abilityId ?? null },
-    });
+    byFight.get(fightId).push(event);
+  }
+}
+
+function collectTrackedEvents(events, byFight, actorMap, groups) {
+  for (const event of events) {
+    const fightId = event.fightID ?? event.fight ?? null;
+    if (!fightId || typeof event.timestamp !== "number") continue;
+    const sourceId = event?.sourceID ?? event?.source?.id ?? null;
+    const actor = sourceId != null ? actorMap.get(sourceId) : null;
+    const sourceName = event?.source?.name || actor?.name || event?.source?.guid || "Unknown";
+    const abilityId = getNumericId(
+      event?.abilityGameID ??
+        event?.ability?.id ??
+        event?.ability?.abilityGameID ??
+        event?.ability?.guid ??
+        event?.abilityID ??
+        event?.ability?.ability,
+    );
+    for (const group of groups) {
+      if (abilityId == null || !group.abilityIds.includes(abilityId)) continue;
+      if (!byFight.has(fightId)) {
+        byFight.set(fightId, []);
+      }
+      byFight.get(fightId).push({
+        timestamp: event.timestamp,
+        group: group.id,
+        source: { name: sourceName },
+        ability: {
+          name: event?.ability?.name || group.label,
+          id: abilityId,
+          icon: toIconUrl(group.icons[abilityId] ?? group.icon),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Follows `nextPageTimestamp` from `options.startTime` to `options.endTime` (the report end when unset),
+ * starting from `firstPage` when one is given. Stops after EVENT_PAGE_LIMIT pages and reports the
+ * timestamp it stopped at as `cutoff`; events of fights ending after it are incomplete.
+ */
+async function fetchEventPages(auth, reportId, options, firstPage = null) {
+  let startTime = options.startTime ?? 0;
+  let page = firstPage;
+  const events = [];
+  for (let count = 0; count < EVENT_PAGE_LIMIT; count += 1) {
+    if (!page) {
+      const report = await fetchReportSections(auth, reportId, "EventPage", [
+        createEventsSection("events", { ...options, startTime }),
+      ]);
+      page = report?.events ?? null;
+    }
+    events.push(...(page?.data ?? []));
+    const next = page?.nextPageTimestamp;
+    const pastEnd = options.endTime != null && next >= options.endTime;
+    if (typeof next !== "number" || next <= startTime || pastEnd) {
+      return { events, cutoff: null };
+    }
+    startTime = next;
+    page = null;
+  }
+  logEvent("warn", "Event paging stopped at the page limit", {
+    reportId,
+    pages: EVENT_PAGE_LIMIT,
+    cutoff: startTime,
+  });
+  return { events, cutoff: startTime };
+}
+
+/**
+ * Reads an `include` list (comma-separated string or array) against the sections a handler serves.
+ * No list means every section; unknown names are rejected so typos do not silently drop data.
+ */
+function resolveIncludedSections(raw, sections, aliases = {}) {
+  if (raw == null || raw === "") {
+    return new Set(sections);
+  }
+  const names = (Array.isArray(raw) ? raw : String(raw).split(","))
+    .map((name) => String(name).trim().toLowerCase())
+    .filter((name) => name.length > 0);
+  const include = new Set();
+  for (const name of names) {
+    const section = aliases[name] ?? name;
+    if (!sections.includes(section)) {
+      throw new Error(`Unknown include section "${name}"; expected ${sections.join(", ")}.`);
+    }
+    include.add(section);
+  }
+  return include;
+}
+
+function describeEventCutoff(kind, fightCount) {
+  return `${kind} events stopped at the ${EVENT_PAGE_LIMIT}-page limit; ${fightCount} later fight${
+    fightCount === 1 ? "" : "s"
+  } may be missing events.`;
+}
+
+function loadTrackedAbilityConfig() {
+  const configPath = process.env.LOGTIME_TRACKED_ABILITIES ?? process.env.logtime_tracked_abilities ?? null;
+  if (!configPath) {
+    return normalizeTrackedAbilityGroups(DEFAULT_TRACKED_ABILITY_GROUPS);
+  }
+  try {
+    const raw = JSON.parse(readFileSync(configPath, "utf8"));
+    const groups = normalizeTrackedAbilityGroups(Array.isArray(raw) ? raw : raw?.groups);
+    logEvent("info", "Loaded tracked ability groups", { count: groups.length, path: configPath });
+    return groups;
+  } catch (error) {
+    logEvent("warn", "Failed to read tracked abilities; using defaults", { path: configPath, error });
+    return normalizeTrackedAbilityGroups(DEFAULT_TRACKED_ABILITY_GROUPS);
+  }
+}
+
+/**
+ * Reads and validates the defensive catalog. Every problem is collected so one failed load lists them
+ * all; a broken catalog throws, which stops startup and makes a reload keep the previous catalog.
+ */
+function loadDefensiveCatalog(source) {
+  let raw;
+  try {
+    raw = JSON.parse(readFileSync(source, "utf8"));
+  } catch (error) {
+    throw new Error(`Defensive catalog ${source} is unreadable: ${error.message}`);
+  }
+  const problems = [];
+  if (raw?.version !== DEFENSIVE_CATALOG_VERSION) {
+    problems.push(`version must be ${DEFENSIVE_CATALOG_VERSION}`);
+  }
+  if (!Array.isArray(raw?.abilities) || !raw.abilities.length) {
+    problems.push("abilities must be a non-empty array");
+  }
+  const seen = new Set();
+  const abilities = (Array.isArray(raw?.abilities) ? raw.abilities : []).map((entry, index) => {
+    const where = `abilities[${index}]`;
+    const id = entry?.id;
+    if (!Number.isInteger(id) || id <= 0) {
+      problems.push(`${where}.id must be a spell ID`);
+    } else if (seen.has(id)) {
+      problems.push(`${where}.id ${id} is listed twice`);
+    }
+    seen.add(id);
+    if (entry?.name != null && (typeof entry.name !== "string" || !entry.name.trim())) {
+      problems.push(`${where}.name must be a non-empty string when set`);
+    }
+    const specs = entry?.class != null ? WOW_CLASS_SPECS[entry.class] : null;
+    if (entry?.class != null && !specs) {
+      problems.push(`${where}.class must be one of ${Object.keys(WOW_CLASS_SPECS).join(", ")} or null`);
+    }
+    if (entry?.spec != null && !specs?.includes(entry.spec)) {
+      const expected = specs ? specs.join(", ") : "set a class first";
+      problems.push(`${where}.spec must be a spec of the ability's class (${expected}) or null`);
+    }
+    if (!DEFENSIVE_CATEGORIES.includes(entry?.category)) {
+      problems.push(`${where}.category must be one of ${DEFENSIVE_CATEGORIES.join(", ")}`);
+    }
+    if (entry?.cooldown != null && !(typeof entry.cooldown === "number" && entry.cooldown > 0)) {
+      problems.push(`${where}.cooldown must be a positive number of seconds, or null`);
+    }
+    if (entry?.charges != null && !(Number.isInteger(entry.charges) && entry.charges >= 1)) {
+      problems.push(`${where}.charges must be a whole number of at least 1`);
+    }
+    if (entry?.talent != null && typeof entry.talent !== "boolean") {
+      problems.push(`${where}.talent must be true or false`);
+    }
+    if (entry?.icon != null && !normalizeIconSlug(entry.icon)) {
+      problems.push(`${where}.icon must be an icon slug or URL`);
+    }
+    return {
+      id,
+      name: entry?.name?.trim?.() ?? null,
+      class: entry?.class ?? null,
+      spec: entry?.spec ?? null,
+      category: entry?.category,
+      cooldown: entry?.cooldown ?? null,
+      charges: entry?.charges ?? 1,
+      talent: entry?.talent ?? false,
+      icon: normalizeIconSlug(entry?.icon),
+    };
+  });
+  if (problems.length) {
+    throw new Error(`Defensive catalog ${source} is invalid: ${problems.join("; ")}`);
+  }
+  const ids = abilities.map((ability) => ability.id);
+  const catalog = {
+    version: raw.version,
+    revision: typeof raw.revision === "string" ? raw.revision : null,
+    abilities,
+    byId: new Map(abilities.map((ability) => [ability.id, ability])),
+    byName: new Map(
+      abilities.filter((ability) => ability.name).map((ability) => [ability.name.toLowerCase(), ability]),
+    ),
+    filter: `ability.id IN (${ids.join(", ")})`,
+    key: createHash("sha1").update(ids.join(",")).digest("hex").slice(0, 12),
+    // Changes with any edit to the entries, so numbers derived from cooldowns or charges never go stale.
+    contentKey: createHash("sha1").update(JSON.stringify(abilities)).digest("hex").slice(0, 12),
+  };
+  logEvent("info", "Loaded defensive catalog", {
+    source: String(source),
+    revision: catalog.revision,
+    abilities: abilities.length,
+  });
+  return catalog;
+}
+
+function findDefensiveCatalogEntry(abilityId, nameKey) {
+  if (abilityId != null && defensiveCatalog.byId.has(abilityId)) {
+    return defensiveCatalog.byId.get(abilityId);
+  }
+  return nameKey ? defensiveCatalog.byName.get(nameKey) ?? null : null;
+}
+
+function describeDefensiveCatalog() {
+  return {
+    version: defensiveCatalog.version,
+    revision: defensiveCatalog.revision,
+    categories: DEFENSIVE_CATEGORIES,
+    abilities: defensiveCatalog.abilities.map((ability) => ({ ...ability, icon: toIconUrl(ability.icon) })),
+  };
+}
+
+/**
+ * Request groups override server groups with the same id and append new ones. A group with no
+ * ability IDs removes the server group of that id.
+ */
+function resolveTrackedAbilities(requested) {
+  if (requested == null) {
+    return serverTrackedAbilityGroups;
+  }
+  if (!Array.isArray(requested)) {
+    throw new Error("trackedAbilities must be an array of ability groups.");
+  }
+  const merged = new Map(serverTrackedAbilityGroups.map((group) => [group.id, group]));
+  requested.forEach((entry, index) => {
+    const [group] = normalizeTrackedAbilityGroups([entry], merged.size + index);
+    const id = group?.id ?? slugify(entry?.id ?? entry?.label);
+    if (!id) return;
+    if (!group) {
+      merged.delete(id);
+      return;
+    }
+    merged.set(id, group);
+  });
+  return Array.from(merged.values()).slice(0, TRACKED_GROUP_LIMIT);
+}
+
+function normalizeTrackedAbilityGroups(rawGroups, paletteOffset = 0) {
+  if (!Array.isArray(rawGroups)) {
+    return [];
+  }
+  return rawGroups
+    .map((raw, index) => {
+      const id = slugify(raw?.id ?? raw?.label);
+      const abilityIds = Array.isArray(raw?.abilityIds)
+        ? Array.from(new Set(raw.abilityIds.map(getNumericId).filter((value) => value != null && value > 0)))
+        : [];
+      if (!id || !abilityIds.length) {
+        return null;
+      }
+      const icons = {};
+      Object.entries(raw?.icons ?? {}).forEach(([abilityId, icon]) => {
+        const numericId = getNumericId(abilityId);
+        const slug = normalizeIconSlug(icon);
+        if (numericId != null && slug) {
+          icons[numericId] = slug;
+        }
+      });
+      return {
+        id,
+        label: typeof raw.label === "string" && raw.label.trim() ? raw.label.trim().slice(0, 40) : id,
+        color: /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(raw.color ?? "")
+          ? raw.color
+          : TRACKED_COLOR_PALETTE[(paletteOffset + index) % TRACKED_COLOR_PALETTE.length],
+        icon: normalizeIconSlug(raw.icon),
+        hostile: Boolean(raw.hostile),
+        abilityIds: abilityIds.slice(0, TRACKED_ABILITY_LIMIT),
+        icons,
+      };
+    })
+    .filter(Boolean)
+    .slice(0, TRACKED_GROUP_LIMIT);
+}
+
+function slugify(value) {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const slug = value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || null;
+}
+
+function toIconUrl(icon) {
+  if (!icon) {
+    return null;
   }
-  return byFight;
+  if (/^https?:/i.test(icon)) {
+    return icon;
+  }
+  return `https://wow.zamimg.com/images/wow/icons/large/${icon}.jpg`;
 }
 
 function createActorMap(actors) {
@@ -371,14 +1766,26 @@ function serializePhaseMetadata(metadata) {
   return result;
 }
 
-async function fetchDefensiveUsage(reportId) {
-  console.log(`[logtime] Defensive usage request for ${reportId}`);
-  const token = await getAccessToken();
-  const data = await callGraphQL(token, REPORT_QUERY, { code: reportId });
-  const report = data?.reportData?.report;
-  if (!report) {
-    throw new Error("Report not found or inaccessible.");
-  }
+/**
+ * Defensive usage for every boss fight. The report fields come from the shared report cache; when they
+ * have to be fetched, the requested cast tables ride along in the same query. The report-wide tables are
+ * kept on the cache entry for the current catalog key, so cache hits only query tables not stored yet.
+ * A `fightFilter` adds a `selection` block with the same tables narrowed to the matching pulls.
+ */
+async function fetchDefensiveUsage(
+  reportId,
+  { include = new Set(DEFENSIVE_INCLUDE_SECTIONS), fightFilter = null, userAuth = null } = {},
+) {
+  const allTableSections = createDefensiveTableSections("defensive", include, {});
+  const { entry, status, sections } = await loadReportCacheEntry(reportId, {
+    cacheKey: getReportCacheKey(reportId, userAuth),
+    userAuth,
+    sections: () => allTableSections,
+  });
+  const storedTables = readDefensiveTables(entry);
+  const tableSections = allTableSections.filter((section) => storedTables[section.alias] == null);
+  recordReportCacheResult(status === "hit" && tableSections.length ? "partial" : status);
+  const report = entry.report;
 
   const fights = report.fights ?? [];
   const bossFights = fights.filter((fight) => (fight?.encounterID ?? 0) > 0);
@@ -386,52 +1793,66 @@ async function fetchDefensiveUsage(reportId) {
     throw new Error("Report contains no boss fights.");
   }
 
-  const fightIDs = bossFights
-    .map((fight) => (typeof fight.id === "number" ? fight.id : null))
-    .filter((id) => typeof id === "number");
-  if (!fightIDs.length) {
-    throw new Error("Unable to determine boss fight IDs for defensive summary.");
+  // The selected pulls are only known once the fight list is in hand, so their tables join whichever
+  // query is still outstanding: the totals on a cache hit, or a follow-up after a cold load.
+  const selectedFights = fightFilter ? selectDefensiveFights(bossFights, fightFilter) : null;
+  const selectionSections = selectedFights?.length
+    ? createDefensiveTableSections("selected", include, {
+        fightIDs: selectedFights.map((fight) => fight.id),
+      })
+    : [];
+  const pendingSections = sections ? selectionSections : [...tableSections, ...selectionSections];
+  const fetched = pendingSections.length
+    ? await fetchReportSections(await getWclAuth(userAuth), reportId, "DefensiveUsage", pendingSections)
+    : null;
+  const tables = { ...storedTables, ...sections, ...fetched };
+  if (tableSections.length) {
+    await storeDefensiveTables(entry, tableSections, tables);
   }
 
-  const tableResponse = await callGraphQL(token, DEFENSIVE_TABLE_QUERY, {
-    code: reportId,
-    fightIDs,
-  });
-  const tableData = tableResponse?.reportData?.report?.table ?? null;
-  const parsedTable = parseJsonField(tableData);
-  const entries = extractTableEntries(parsedTable);
-  if (entries.length) {
-    console.log("[logtime] Defensive table sample entry:", JSON.stringify(entries[0]).slice(0, 500));
-  }
   const abilityIconMap = await getAbilityIconMap();
   const actorMap = createActorMap(report.masterData?.actors ?? []);
-  const normalizedPlayers = await Promise.all(
-    entries.map((entry) => normalizeDefensivePlayer(entry, actorMap, abilityIconMap)),
-  );
-  const players = normalizedPlayers
-    .filter((player) => player && player.abilities.length > 0 && !isTankRole(player.role))
-    .sort((a, b) => {
-      const totalDelta = (b?.totalUses ?? 0) - (a?.totalUses ?? 0);
-      if (totalDelta !== 0) {
-        return totalDelta;
-      }
-      return a.name.localeCompare(b.name);
-    });
-  console.log(
-    `[logtime] Defensive usage parsed ${players.length} players (${entries.length} raw entries).`,
+  const players = await normalizeDefensivePlayerTable(
+    tables.defensivePlayers ?? null,
+    actorMap,
+    abilityIconMap,
+    bossFights,
   );
+  logEvent("info", "Defensive usage parsed", { reportId, players: players.length });
   const sampleAbility = players
     .flatMap((player) => player.abilities)
     .find((ability) => ability?.icon);
   if (sampleAbility) {
-    console.log(
-      `[logtime] Sample defensive icon -> ${sampleAbility.name}: ${sampleAbility.icon.slice(0, 80)}`,
-    );
+    logEvent("debug", "Sample defensive icon", {
+      ability: sampleAbility.name,
+      icon: sampleAbility.icon.slice(0, 80),
+    });
   } else {
-    console.warn("[logtime] No defensive ability icons available in payload.");
+    logEvent("warn", "No defensive ability icons available in payload", { reportId });
   }
 
-  const abilitySummary = await fetchAbilitySummary(token, reportId, fightIDs, abilityIconMap);
+  const abilitySummary = applySummaryPossibleUses(
+    await normalizeAbilitySummaryTable(tables.defensiveAbilities ?? null, abilityIconMap),
+    include.has("players") ? players : null,
+  );
+  let selection = null;
+  if (selectedFights) {
+    const selectedPlayers = await normalizeDefensivePlayerTable(
+      tables.selectedPlayers ?? null,
+      actorMap,
+      abilityIconMap,
+      selectedFights,
+    );
+    selection = {
+      filter: fightFilter,
+      fightIds: selectedFights.map((fight) => fight.id),
+      players: selectedPlayers,
+      abilities: applySummaryPossibleUses(
+        await normalizeAbilitySummaryTable(tables.selectedAbilities ?? null, abilityIconMap),
+        include.has("players") ? selectedPlayers : null,
+      ),
+    };
+  }
 
   const fightSummaries = bossFights.map((fight) => {
     const duration =
@@ -456,62 +1877,549 @@ async function fetchDefensiveUsage(reportId) {
     fights: fightSummaries,
     players,
     abilities: abilitySummary,
+    selection,
   };
 }
 
-function parseJsonField(raw) {
-  if (!raw) {
-    return null;
-  }
-  if (typeof raw === "object") {
-    return raw;
-  }
-  if (typeof raw === "string") {
-    try {
-      return JSON.parse(raw);
-    } catch (error) {
-      console.warn("[logtime] Failed to parse JSON field:", error);
-      return null;
-    }
-  }
-  return null;
+// Report-wide cast tables on a cache entry, by section alias; a different catalog key starts afresh.
+function readDefensiveTables(entry) {
+  const stored = entry.defensiveTables;
+  return stored?.catalogKey === defensiveCatalog.key ? stored.tables : {};
 }
 
-function extractTableEntries(table) {
-  if (!table) return [];
-  if (Array.isArray(table.entries)) {
-    return table.entries;
-  }
-  if (Array.isArray(table.data?.entries)) {
-    return table.data.entries;
-  }
-  if (Array.isArray(table.series)) {
-    return table.series;
-  }
-  return [];
+async function storeDefensiveTables(entry, sections, tables) {
+  const stored = { ...readDefensiveTables(entry) };
+  sections.forEach((section) => {
+    if (tables[section.alias] != null) {
+      stored[section.alias] = tables[section.alias];
+    }
+  });
+  entry.defensiveTables = { catalogKey: defensiveCatalog.key, tables: stored };
+  await saveReportCacheEntry(entry);
 }
 
-async function fetchAbilitySummary(token, reportId, fightIDs, abilityIconMap) {
-  if (!fightIDs?.length) return [];
-  const response = await callGraphQL(token, DEFENSIVE_SUMMARY_QUERY, {
-    code: reportId,
-    fightIDs,
-  });
-  const tableData = response?.reportData?.report?.table ?? null;
-  const parsed = parseJsonField(tableData);
-  const entries = extractTableEntries(parsed);
-  if (entries.length) {
-    console.log(
-      "[logtime] Defensive ability summary sample:",
-      JSON.stringify(entries[0]).slice(0, 500),
+/**
+ * Defensive usage across several reports, oldest first. Each report's player rows are kept as a snapshot
+ * on its report cache entry, so a finished report is only queried again once the catalog content changes.
+ * Reports that fail to load are skipped with a warning; a rate limit still fails the whole request.
+ * `onGuildReports` is told how many reports a guild search found.
+ */
+async function fetchDefensiveTrends({ reportIds = [], guild = null, userAuth = null, onGuildReports = null } = {}) {
+  const warnings = [];
+  const codes = guild ? await fetchGuildReportCodes(guild, userAuth) : reportIds;
+  if (guild) {
+    onGuildReports?.(codes.length);
+  }
+  if (guild && !codes.length) {
+    const where = `${guild.name} (${guild.server}, ${guild.region.toUpperCase()})`;
+    warnings.push(`No reports found for ${where} in that range.`);
+  }
+  const reports = await Promise.all(
+    codes.map(async (reportId) => {
+      try {
+        return await loadDefensiveSnapshot(reportId, userAuth);
+      } catch (error) {
+        if (error?.status === 429) {
+          throw error;
+        }
+        logEvent("warn", "Skipping report in defensive trends", { reportId, error });
+        warnings.push(`Skipped ${reportId}: ${error.message}`);
+        return null;
+      }
+    }),
+  );
+  return {
+    reports: reports.filter(Boolean).sort((a, b) => (a.startTime ?? 0) - (b.startTime ?? 0)),
+    ...(warnings.length ? { warnings } : {}),
+  };
+}
+
+async function loadDefensiveSnapshot(reportId, userAuth) {
+  const cacheKey = getReportCacheKey(reportId, userAuth);
+  const cached = await readReportCacheEntry(cacheKey);
+  if (cached?.finished && cached.defensiveSnapshot?.catalogKey === defensiveCatalog.contentKey) {
+    recordReportCacheResult("hit");
+    return cached.defensiveSnapshot;
+  }
+  const usage = await fetchDefensiveUsage(reportId, { include: new Set(["players"]), userAuth });
+  const entry = await readReportCacheEntry(cacheKey);
+  const snapshot = {
+    code: reportId,
+    title: usage.report.title,
+    startTime: entry?.report?.startTime ?? null,
+    durationSeconds: Math.round(usage.fights.reduce((sum, fight) => sum + (fight.duration ?? 0), 0) / 1000),
+    revision: defensiveCatalog.revision,
+    catalogKey: defensiveCatalog.contentKey,
+    players: usage.players,
+  };
+  // Live reports are still growing, so only finished ones keep their snapshot.
+  if (entry?.finished) {
+    entry.defensiveSnapshot = snapshot;
+    await saveReportCacheEntry(entry);
+  }
+  return snapshot;
+}
+
+// WCL lists a guild's reports newest first, so the limit keeps the most recent ones.
+async function fetchGuildReportCodes(guild, userAuth) {
+  const data = await callGraphQL(await getWclAuth(userAuth), GUILD_REPORTS_QUERY, {
+    guildName: guild.name,
+    guildServerSlug: guild.server,
+    guildServerRegion: guild.region,
+    startTime: guild.startTime,
+    endTime: guild.endTime,
+    limit: DEFENSIVE_TRENDS_REPORT_LIMIT,
+  });
+  return (data?.reportData?.reports?.data ?? [])
+    .map((report) => report?.code)
+    .filter((code) => typeof code === "string" && code.length > 0);
+}
+
+// `<prefix>Players` and `<prefix>Abilities` cast tables; `scope` narrows them to specific fights.
+function createDefensiveTableSections(prefix, include, scope) {
+  const options = {
+    dataType: "Casts",
+    killType: "Encounters",
+    filterExpression: defensiveCatalog.filter,
+    ...scope,
+  };
+  return [
+    include.has("players") && createTableSection(`${prefix}Players`, { ...options, viewBy: "Source" }),
+    include.has("abilities") && createTableSection(`${prefix}Abilities`, { ...options, viewBy: "Ability" }),
+  ].filter(Boolean);
+}
+
+async function normalizeDefensivePlayerTable(tableData, actorMap, abilityIconMap, fights) {
+  const entries = extractTableEntries(parseJsonField(tableData));
+  if (entries.length) {
+    logEvent("debug", "Defensive table sample entry", { entry: JSON.stringify(entries[0]).slice(0, 500) });
+  }
+  const normalizedPlayers = await Promise.all(
+    entries.map(async (entry) => {
+      const player = await normalizeDefensivePlayer(entry, actorMap, abilityIconMap);
+      // Table rows carry the actor ID in `id`; `guid` is the character GUID.
+      const actorId = getNumericId(entry?.id);
+      if (!player) return null;
+      const presentFights = fights.filter((fight) => isActorInFight(fight, actorId));
+      player.activeSeconds = Math.round(presentFights.reduce((sum, fight) => sum + getFightSeconds(fight), 0));
+      await addUncastKitDefensives(player, abilityIconMap);
+      return applyPossibleUses(player, presentFights);
+    }),
+  );
+  return normalizedPlayers
+    .filter((player) => player && player.abilities.length > 0)
+    .sort((a, b) => {
+      const totalDelta = (b?.totalUses ?? 0) - (a?.totalUses ?? 0);
+      if (totalDelta !== 0) {
+        return totalDelta;
+      }
+      return a.name.localeCompare(b.name);
+    });
+}
+
+/**
+ * Adds the baseline catalog defensives of the player's class that they never cast, so coverage counts
+ * what they left unpressed. Spec-bound entries only join for that spec, and only spells with a cooldown
+ * are added, since nothing else gives a possible count. Talents count once used, since the log does not
+ * say who took them, and so do class-less entries such as potions.
+ */
+async function addUncastKitDefensives(player, abilityIconMap) {
+  if (!player.className) return;
+  const castIds = new Set(player.abilities.map((ability) => ability.id));
+  const castNames = new Set(player.abilities.map((ability) => ability.name.toLowerCase()));
+  const kit = defensiveCatalog.abilities.filter(
+    (entry) =>
+      entry.class === player.className &&
+      (entry.spec == null || entry.spec === player.specName) &&
+      entry.cooldown &&
+      !entry.talent &&
+      !castIds.has(entry.id) &&
+      !(entry.name && castNames.has(entry.name.toLowerCase())),
+  );
+  const rows = await Promise.all(
+    kit.map((entry) => normalizeAbilityUsage({ guid: entry.id, name: entry.name, total: 0 }, abilityIconMap)),
+  );
+  player.abilities.push(...rows.filter(Boolean));
+}
+
+/**
+ * Replaces WCL's possible-use counts with catalog-derived ones. In every pull the player took part in,
+ * an ability offers its charges plus one use per full cooldown that fits in the pull. Abilities without
+ * a known cooldown keep the WCL number. The two bases are never added together: the player's
+ * `maxPossibleUses` and `coverageUses` cover only the cooldown-based abilities, and fall back to WCL's
+ * totals when there are none.
+ */
+function applyPossibleUses(player, presentFights) {
+  const pullSeconds = presentFights.map(getFightSeconds);
+  const totalSeconds = pullSeconds.reduce((sum, seconds) => sum + seconds, 0);
+  player.abilities.forEach((ability) => {
+    const entry = ability.id != null ? defensiveCatalog.byId.get(ability.id) : null;
+    if (!entry?.cooldown) {
+      ability.possibleBasis = "wcl";
+      ability.possibleFormula = ability.possible > 0 ? "Reported by Warcraft Logs" : null;
+      return;
+    }
+    ability.possible = pullSeconds.reduce(
+      (sum, seconds) => sum + entry.charges + Math.floor(seconds / entry.cooldown),
+      0,
     );
+    ability.possibleBasis = "cooldown";
+    ability.possibleFormula = `${entry.charges} charge${entry.charges === 1 ? "" : "s"} + ⌊pull length ÷ ${
+      entry.cooldown
+    } s⌋ per pull, over ${describePulls(pullSeconds.length, totalSeconds)} = ${ability.possible}`;
+  });
+  player.abilities = player.abilities.filter((ability) => ability.uses > 0 || ability.possible > 0);
+  const counted = player.abilities.filter((ability) => ability.possibleBasis === "cooldown");
+  if (counted.length) {
+    player.possibleBasis = "cooldown";
+    player.maxPossibleUses = counted.reduce((sum, ability) => sum + ability.possible, 0);
+    player.coverageUses = counted.reduce((sum, ability) => sum + ability.uses, 0);
+    const skipped = player.abilities.length - counted.length;
+    const uses = player.coverageUses;
+    player.possibleFormula = `${uses} use${uses === 1 ? "" : "s"} of ${counted.length} defensive${
+      counted.length === 1 ? "" : "s"
+    } with a known cooldown, out of their possible uses over ${describePulls(
+      pullSeconds.length,
+      totalSeconds,
+    )} = ${player.maxPossibleUses}${skipped ? `; ${skipped} without one not counted` : ""}`;
+  } else {
+    player.possibleBasis = "wcl";
+    player.coverageUses = player.totalUses;
+    player.possibleFormula = player.maxPossibleUses > 0 ? "Reported by Warcraft Logs" : null;
+  }
+  return player;
+}
+
+/**
+ * Teamwide possible uses are the sum over every player who has the ability, cast or not. Kit defensives
+ * nobody pressed are missing from WCL's table, so they are appended with zero uses.
+ */
+function applySummaryPossibleUses(abilities, players) {
+  const holders = new Map();
+  players?.forEach((player) =>
+    player.abilities
+      .filter((entry) => entry.possibleBasis === "cooldown")
+      .forEach((entry) => holders.set(entry.id, [...(holders.get(entry.id) ?? []), entry])),
+  );
+  const summarize = (ability) => {
+    const rows = holders.get(ability.id);
+    if (!rows?.length) {
+      return {
+        ...ability,
+        possibleBasis: "wcl",
+        possibleFormula: ability.possible > 0 ? "Reported by Warcraft Logs" : null,
+      };
+    }
+    const possible = rows.reduce((sum, entry) => sum + entry.possible, 0);
+    return {
+      ...ability,
+      possible,
+      possibleBasis: "cooldown",
+      possibleFormula: `Sum of possible uses over the ${rows.length} player${
+        rows.length === 1 ? "" : "s"
+      } who have it = ${possible}`,
+    };
+  };
+  const listed = new Set(abilities.map((ability) => ability.id));
+  const unused = Array.from(holders.entries())
+    .filter(([id]) => !listed.has(id))
+    .map(([id, [row]]) => ({ id, name: row.name, icon: row.icon, uses: 0, possible: 0, category: row.category }));
+  return [...abilities, ...unused].map(summarize);
+}
+
+// Fights without a `friendlyPlayers` list, or table rows without an actor ID, count as present.
+function isActorInFight(fight, actorId) {
+  return actorId == null || !Array.isArray(fight.friendlyPlayers) || fight.friendlyPlayers.includes(actorId);
+}
+
+function getFightSeconds(fight) {
+  return typeof fight.startTime === "number" && typeof fight.endTime === "number"
+    ? Math.max(0, fight.endTime - fight.startTime) / 1000
+    : 0;
+}
+
+function describePulls(count, totalSeconds) {
+  return `${count} pull${count === 1 ? "" : "s"} (${Math.round(totalSeconds)} s)`;
+}
+
+/**
+ * Reads a trends request: `reportIds` (a list or a comma-separated string of report codes), or a `guild`
+ * with `name`, `server` and `region` plus optional `startTime` / `endTime` in epoch milliseconds.
+ * Throws on malformed values.
+ */
+function parseDefensiveTrendsRequest(body) {
+  if (body?.guild != null) {
+    const { name, server, region } = body.guild;
+    if (typeof name !== "string" || !name.trim() || typeof server !== "string" || !server.trim()) {
+      throw new Error("guild needs a name and a server.");
+    }
+    const regionKey = String(region ?? "").trim().toLowerCase();
+    if (!WCL_REGIONS.includes(regionKey)) {
+      throw new Error(`guild.region must be one of ${WCL_REGIONS.join(", ")}.`);
+    }
+    const [startTime, endTime] = [body.startTime, body.endTime].map((value, index) => {
+      if (value == null || value === "") return undefined;
+      const time = Number(value);
+      if (!Number.isFinite(time) || time < 0) {
+        throw new Error(`${index ? "endTime" : "startTime"} must be a timestamp in milliseconds.`);
+      }
+      return time;
+    });
+    if (startTime != null && endTime != null && startTime >= endTime) {
+      throw new Error("startTime must be before endTime.");
+    }
+    return { guild: { name: name.trim(), server: toServerSlug(server), region: regionKey, startTime, endTime } };
+  }
+  const raw = Array.isArray(body?.reportIds) ? body.reportIds : String(body?.reportIds ?? "").split(",");
+  const reportIds = Array.from(new Set(raw.map((value) => String(value ?? "").trim()).filter(Boolean)));
+  if (!reportIds.length) {
+    throw new Error("reportIds or guild is required.");
+  }
+  if (reportIds.some((reportId) => !/^[A-Za-z0-9]+$/.test(reportId))) {
+    throw new Error("reportIds must be report codes.");
+  }
+  if (reportIds.length > DEFENSIVE_TRENDS_REPORT_LIMIT) {
+    throw new Error(`At most ${DEFENSIVE_TRENDS_REPORT_LIMIT} reports can be compared at once.`);
+  }
+  return { reportIds };
+}
+
+// Realm names to WCL server slugs: "Argent Dawn" → "argent-dawn", "Mal'Ganis" → "malganis".
+function toServerSlug(server) {
+  return server.trim().toLowerCase().replace(/['’]/g, "").replace(/\s+/g, "-");
+}
+
+/**
+ * Reads the pull filter of a defensives request: an explicit `fightIds` list and/or the boss filters
+ * `killsOnly`, `encounterId` and `lastPulls`. Returns null when none is set; throws on malformed values.
+ */
+function parseDefensiveFightFilter(body) {
+  const filter = {};
+  if (body?.fightIds != null) {
+    const raw = Array.isArray(body.fightIds) ? body.fightIds : String(body.fightIds).split(",");
+    const fightIds = raw.map((value) => getNumericId(typeof value === "string" ? value.trim() : value));
+    if (!fightIds.length || fightIds.some((id) => id == null || !Number.isInteger(id) || id <= 0)) {
+      throw new Error("fightIds must be a list of fight IDs.");
+    }
+    filter.fightIds = Array.from(new Set(fightIds));
+  }
+  if (body?.killsOnly) {
+    filter.killsOnly = true;
+  }
+  if (body?.encounterId != null && body.encounterId !== "") {
+    const encounterId = getNumericId(body.encounterId);
+    if (encounterId == null || !Number.isInteger(encounterId) || encounterId <= 0) {
+      throw new Error("encounterId must be an encounter ID.");
+    }
+    filter.encounterId = encounterId;
+  }
+  if (body?.lastPulls != null && body.lastPulls !== "") {
+    const lastPulls = getNumericId(body.lastPulls);
+    if (lastPulls == null || !Number.isInteger(lastPulls) || lastPulls <= 0) {
+      throw new Error("lastPulls must be a positive whole number.");
+    }
+    filter.lastPulls = lastPulls;
+  }
+  return Object.keys(filter).length ? filter : null;
+}
+
+/**
+ * One fight's defensive casts and player deaths, as offsets from the pull. Both event kinds are cached
+ * per fight next to the /api/report events (deaths are shared with it). Returns null for unknown fights.
+ */
+async function fetchDefensiveTimeline(reportId, fightId, { userAuth = null } = {}) {
+  const kinds = getDefensiveTimelineKinds();
+  const { entry, status, sections: prefetched } = await loadReportCacheEntry(reportId, {
+    cacheKey: getReportCacheKey(reportId, userAuth),
+    userAuth,
+    sections: (cached) =>
+      createEventSections(
+        kinds.filter((kind) => !kind.read(cached?.events?.[fightId])),
+        { fightIDs: [fightId] },
+      ),
+  });
+  const report = entry.report;
+  const fight = (report.fights ?? []).find((candidate) => candidate.id === fightId);
+  if (!fight) {
+    recordReportCacheResult(status);
+    return null;
+  }
+
+  const actorMap = createActorMap(report.masterData?.actors ?? []);
+  const missing = kinds.filter((kind) => !kind.read(entry.events[fightId]));
+  const partial = new Map();
+  const warnings = [];
+  if (missing.length) {
+    const auth = await getWclAuth(userAuth);
+    const window = getFightWindow([fight]);
+    const firstPages =
+      prefetched ??
+      (await fetchReportSections(auth, reportId, "DefensiveTimeline", createEventSections(missing, window)));
+    entry.events[fightId] ??= { endTime: fight.endTime ?? null, tracked: {} };
+    for (const kind of missing) {
+      const result = await fetchEventKind(auth, reportId, kind, window, actorMap, firstPages);
+      const events = result.byFight.get(fightId) ?? [];
+      if (result.cutoff == null) {
+        kind.write(entry.events[fightId], events);
+      } else {
+        partial.set(kind, events);
+        warnings.push(describeEventCutoff(kind.label, 1));
+      }
+    }
+    await saveReportCacheEntry(entry);
+  }
+  recordReportCacheResult(status === "hit" && missing.length ? "partial" : status);
+
+  const [deathKind, castKind] = kinds;
+  const readEvents = (kind) => kind.read(entry.events[fightId]) ?? partial.get(kind) ?? [];
+  const startTime = fight.startTime ?? 0;
+  const deaths = readEvents(deathKind)
+    .filter((event) => !event.target?.type || event.target.type === "Player")
+    .map((event) => ({
+      timestamp: event.timestamp - startTime,
+      playerId: event.targetID ?? event.target?.id ?? null,
+      player: event.target?.name ?? "Unknown",
+    }));
+  const casts = readEvents(castKind).map((event) => ({
+    timestamp: event.timestamp - startTime,
+    playerId: event.sourceID,
+    player: event.source.name,
+    abilityId: event.abilityId,
+  }));
+
+  return {
+    fight: {
+      id: fight.id,
+      name: fight.name ?? "Unknown",
+      encounterID: fight.encounterID ?? null,
+      kill: Boolean(fight.kill),
+      duration: Math.max(0, (fight.endTime ?? startTime) - startTime),
+    },
+    casts: casts.sort((a, b) => a.timestamp - b.timestamp),
+    deaths: deaths.sort((a, b) => a.timestamp - b.timestamp),
+    cooldowns: Object.fromEntries(
+      defensiveCatalog.abilities
+        .filter((ability) => ability.cooldown != null)
+        .map((ability) => [ability.id, ability.cooldown]),
+    ),
+    charges: Object.fromEntries(
+      defensiveCatalog.abilities
+        .filter((ability) => ability.charges > 1)
+        .map((ability) => [ability.id, ability.charges]),
+    ),
+    ...(warnings.length ? { warnings } : {}),
+  };
+}
+
+// Deaths come first so fetchDefensiveTimeline can destructure the pair. Casts are cached per catalog
+// key, so a catalog reload with different spells refetches them.
+function getDefensiveTimelineKinds() {
+  const catalogKey = defensiveCatalog.key;
+  return [
+    ...getReportEventKinds(new Set(["deaths"]), [], ""),
+    {
+      label: "Defensive cast",
+      field: "defensiveCasts",
+      requests: [
+        {
+          alias: "defensiveCasts",
+          options: {
+            dataType: "Casts",
+            hostilityType: "Friendlies",
+            filterExpression: defensiveCatalog.filter,
+          },
+          collect: collectDefensiveCastEvents,
+        },
+      ],
+      read: (fightEvents) => fightEvents?.defensives?.[catalogKey],
+      write: (fightEvents, events) => {
+        fightEvents.defensives = { [catalogKey]: events };
+      },
+    },
+  ];
+}
+
+function collectDefensiveCastEvents(events, byFight, actorMap) {
+  for (const event of events) {
+    const fightId = event.fightID ?? event.fight ?? null;
+    if (!fightId || typeof event.timestamp !== "number" || (event.type && event.type !== "cast")) continue;
+    const sourceId = event?.sourceID ?? event?.source?.id ?? null;
+    const actor = sourceId != null ? actorMap.get(sourceId) : null;
+    if (!byFight.has(fightId)) {
+      byFight.set(fightId, []);
+    }
+    byFight.get(fightId).push({
+      timestamp: event.timestamp,
+      sourceID: sourceId,
+      source: { name: event?.source?.name || actor?.name || "Unknown" },
+      abilityId: getNumericId(event?.abilityGameID ?? event?.ability?.guid ?? event?.abilityID),
+    });
+  }
+}
+
+// Filters narrow one another; `lastPulls` applies last so "last 3 kills" means what it says.
+function selectDefensiveFights(bossFights, filter) {
+  let selected = [...bossFights].sort((a, b) => (a.startTime ?? 0) - (b.startTime ?? 0));
+  if (filter.fightIds) {
+    const wanted = new Set(filter.fightIds);
+    selected = selected.filter((fight) => wanted.has(fight.id));
+  }
+  if (filter.encounterId) {
+    selected = selected.filter((fight) => fight.encounterID === filter.encounterId);
+  }
+  if (filter.killsOnly) {
+    selected = selected.filter((fight) => fight.kill);
+  }
+  if (filter.lastPulls) {
+    selected = selected.slice(-filter.lastPulls);
+  }
+  return selected;
+}
+
+function parseJsonField(raw) {
+  if (!raw) {
+    return null;
+  }
+  if (typeof raw === "object") {
+    return raw;
+  }
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      logEvent("warn", "Failed to parse JSON field", { error });
+      return null;
+    }
+  }
+  return null;
+}
+
+function extractTableEntries(table) {
+  if (!table) return [];
+  if (Array.isArray(table.entries)) {
+    return table.entries;
+  }
+  if (Array.isArray(table.data?.entries)) {
+    return table.data.entries;
+  }
+  if (Array.isArray(table.series)) {
+    return table.series;
+  }
+  return [];
+}
+
+async function normalizeAbilitySummaryTable(tableData, abilityIconMap) {
+  const parsed = parseJsonField(tableData);
+  const entries = extractTableEntries(parsed);
+  if (entries.length) {
+    logEvent("debug", "Defensive ability summary sample", { entry: JSON.stringify(entries[0]).slice(0, 500) });
   }
   const normalized = await Promise.all(
     entries.map((entry) => normalizeAbilitySummary(entry, abilityIconMap)),
   );
   return normalized
-    .filter((ability) => ability && (ability.totalUses > 0 || ability.maxPossibleUses > 0))
-    .sort((a, b) => b.totalUses - a.totalUses);
+    .filter((ability) => ability && (ability.uses > 0 || ability.possible > 0))
+    .sort((a, b) => b.uses - a.uses);
 }
 
 async function normalizeAbilitySummary(entry, abilityIconMap) {
@@ -533,25 +2441,28 @@ async function normalizeAbilitySummary(entry, abilityIconMap) {
     uses: totalUses,
     possible: maxPossible,
     icon,
+    category: findDefensiveCatalogEntry(abilityId, null)?.category ?? null,
   };
 }
 
 async function getAbilityIconMap() {
   if (abilityIconCache) {
-    console.log(
-      `[logtime] Using cached spell icons (${abilityIconCache.byName.size} names / ${abilityIconCache.byId.size} ids).`,
-    );
+    logEvent("debug", "Using cached spell icons", {
+      names: abilityIconCache.byName.size,
+      ids: abilityIconCache.byId.size,
+    });
     return abilityIconCache;
   }
   if (!WOW_CLIENT_ID || !WOW_CLIENT_SECRET) {
-    console.warn("[logtime] WOW API credentials missing; spell icons unavailable.");
+    logEvent("warn", "WoW API credentials missing; spell icons unavailable");
     abilityIconCache = { byId: new Map(), byName: new Map() };
     return abilityIconCache;
   }
   const mapById = new Map();
   const mapByName = new Map();
+  const spellIds = defensiveCatalog.abilities.filter((ability) => !ability.icon).map((ability) => ability.id);
   await Promise.all(
-    DEFENSIVE_ABILITY_IDS.map(async (spellId) => {
+    spellIds.map(async (spellId) => {
       try {
         const spellData = await fetchWowSpellData(spellId);
         if (spellData?.icon) {
@@ -561,25 +2472,23 @@ async function getAbilityIconMap() {
           }
         }
       } catch (error) {
-        console.warn(`[logtime] Failed to fetch spell icon for ${spellId}:`, error?.message || error);
+        logEvent("warn", "Failed to fetch spell icon", { spellId, error });
       }
     }),
   );
   abilityIconCache = { byId: mapById, byName: mapByName };
-  console.log(
-    `[logtime] Cached ${mapById.size} spell icons (${mapByName.size} name lookups available).`,
-  );
+  logEvent("info", "Cached spell icons", { ids: mapById.size, names: mapByName.size });
   return abilityIconCache;
 }
 
 async function normalizeDefensivePlayer(entry, actorMap, abilityIconMap) {
   if (!entry) return null;
   const playerId = getNumericId(entry.guid ?? entry.id);
-  const actor = playerId != null ? actorMap.get(playerId) : null;
+  const actor = actorMap.get(getNumericId(entry.id)) ?? (playerId != null ? actorMap.get(playerId) : null);
   const specInfo = extractSpecInfo(entry);
   const abilitiesRaw = extractAbilityList(entry);
   if (!abilitiesRaw.length) {
-    console.warn("[logtime] Player entry missing abilities:", entry.name || entry.id);
+    logEvent("warn", "Player entry missing abilities", { player: entry.name || entry.id });
   }
   const abilities = (
     await Promise.all(abilitiesRaw.map((ability) => normalizeAbilityUsage(ability, abilityIconMap)))
@@ -590,7 +2499,8 @@ async function normalizeDefensivePlayer(entry, actorMap, abilityIconMap) {
   return {
     id: playerId,
     name: entry.name ?? actor?.name ?? "Unknown",
-    className: actor?.subType ?? entry.class ?? entry.subType ?? null,
+    server: actor?.server ?? entry.server ?? null,
+    className: actor?.subType ?? entry.class ?? entry.subType ?? entry.type ?? null,
     specName: specInfo.name,
     role: specInfo.role,
     totalUses: totalUses || computedUses,
@@ -624,13 +2534,13 @@ function extractAbilityList(entry) {
 async function normalizeAbilityUsage(raw, abilityIconMap) {
   if (!raw) return null;
   if (typeof raw !== "object") {
-    console.warn("[logtime] Unexpected ability entry", raw);
+    logEvent("warn", "Unexpected ability entry", { entry: raw });
     return null;
   }
-  console.log("[logtime] Ability payload sample:", JSON.stringify(raw).slice(0, 200));
+  logEvent("debug", "Ability payload sample", { entry: JSON.stringify(raw).slice(0, 200) });
   const abilityId = getNumericId(raw.guid ?? raw.id ?? raw.abilityID ?? raw.ability);
   if (abilityId == null) {
-    console.warn("[logtime] Ability missing numeric id", raw?.name || raw);
+    logEvent("warn", "Ability missing numeric id", { ability: raw?.name || raw });
   }
   const uses = asNumber(raw.totalUses ?? raw.total ?? raw.uses ?? raw.casts ?? 0);
   const possible = asNumber(
@@ -649,24 +2559,38 @@ async function normalizeAbilityUsage(raw, abilityIconMap) {
     icon,
     uses,
     possible,
+    category: findDefensiveCatalogEntry(abilityId, null)?.category ?? null,
   };
 }
 
+/**
+ * Reads a table row's spec and role. Rows list them under `specs`, directly on the row, or only as the
+ * `Class-Spec` icon name; a missing or unrecognised role is derived from the spec.
+ */
 function extractSpecInfo(entry) {
-  const specs = Array.isArray(entry?.specs) ? entry.specs : [];
-  if (specs.length) {
-    const primary = specs[0];
-    const name = typeof primary?.spec === "string" ? primary.spec : typeof primary?.name === "string" ? primary.name : null;
-    const role = typeof primary?.role === "string" ? primary.role.toLowerCase() : null;
-    return { name, role };
-  }
-  const name = typeof entry?.spec === "string" ? entry.spec : null;
-  const role = typeof entry?.role === "string" ? entry.role.toLowerCase() : null;
-  return { name, role };
+  const primary = Array.isArray(entry?.specs) && entry.specs.length ? entry.specs[0] : entry;
+  const iconSpec = typeof entry?.icon === "string" ? entry.icon.split("-")[1] : null;
+  const name =
+    typeof primary?.spec === "string"
+      ? primary.spec
+      : typeof primary?.name === "string" && primary !== entry
+        ? primary.name
+        : iconSpec || null;
+  return { name, role: normalizeDefensiveRole(primary?.role) ?? getSpecRole(name) };
+}
+
+function normalizeDefensiveRole(role) {
+  const value = typeof role === "string" ? role.trim().toLowerCase() : "";
+  if (value === "healing" || value === "heal") return "healer";
+  if (value === "damage" || value === "dd") return "dps";
+  return DEFENSIVE_ROLES.includes(value) ? value : null;
 }
 
-function isTankRole(role) {
-  return typeof role === "string" && role.toLowerCase() === "tank";
+function getSpecRole(specName) {
+  if (!specName) return null;
+  if (WOW_SPEC_ROLES.tank.includes(specName)) return "tank";
+  if (WOW_SPEC_ROLES.healer.includes(specName)) return "healer";
+  return Object.values(WOW_CLASS_SPECS).some((specs) => specs.includes(specName)) ? "dps" : null;
 }
 
 async function extractAbilityIcon(raw, abilityIconMap, abilityId) {
@@ -674,6 +2598,10 @@ async function extractAbilityIcon(raw, abilityIconMap, abilityId) {
     return null;
   }
   const nameKey = typeof raw.name === "string" ? raw.name.trim().toLowerCase() : null;
+  const catalogIcon = findDefensiveCatalogEntry(abilityId, nameKey)?.icon;
+  if (catalogIcon) {
+    return toIconUrl(catalogIcon);
+  }
   if (nameKey && abilityIconMap?.byName?.has(nameKey)) {
     return abilityIconMap.byName.get(nameKey);
   }
@@ -710,12 +2638,6 @@ async function extractAbilityIcon(raw, abilityIconMap, abilityId) {
       return cachedName;
     }
   }
-  if (nameKey) {
-    const override = findIconOverrideByName(nameKey);
-    if (override) {
-      return override;
-    }
-  }
   return null;
 }
 
@@ -751,7 +2673,7 @@ async function fetchWowItemIconByName(name) {
     params.set("_page", "1");
     params.set(`name.${locale}`, name);
     const searchUrl = `https://${region}.api.blizzard.com/data/wow/search/item?${params.toString()}`;
-    const response = await fetch(searchUrl, {
+    const response = await fetchUpstream(searchUrl, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
@@ -768,7 +2690,7 @@ async function fetchWowItemIconByName(name) {
       return null;
     }
     const mediaUrl = `https://${region}.api.blizzard.com/data/wow/media/item/${itemId}?namespace=${namespace}&locale=${locale}`;
-    const mediaResp = await fetch(mediaUrl, {
+    const mediaResp = await fetchUpstream(mediaUrl, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
@@ -782,7 +2704,7 @@ async function fetchWowItemIconByName(name) {
     itemIconCache.set(key, iconUrl ?? null);
     return iconUrl;
   } catch (error) {
-    console.warn(`[logtime] Item icon lookup failed for ${name}:`, error?.message || error);
+    logEvent("warn", "Item icon lookup failed", { item: name, error });
     itemIconCache.set(key, null);
     return null;
   }
@@ -809,7 +2731,7 @@ async function fetchYoutubeLiveStart(videoId) {
   if (!videoId) {
     return null;
   }
-  if (!YOUTUBE_API_KEY) {
+  if (!hasYoutubeApiKey()) {
     throw new Error("Server missing YOUTUBE_API_KEY for YouTube metadata.");
   }
   if (youtubeLiveStartCache.has(videoId)) {
@@ -819,11 +2741,11 @@ async function fetchYoutubeLiveStart(videoId) {
     }
     youtubeLiveStartCache.delete(videoId);
   }
-  const apiUrl = new URL("https://www.googleapis.com/youtube/v3/videos");
+  const apiUrl = new URL(YOUTUBE_API_URL);
   apiUrl.searchParams.set("id", videoId);
   apiUrl.searchParams.set("part", "liveStreamingDetails");
-  apiUrl.searchParams.set("key", YOUTUBE_API_KEY);
-  const response = await fetch(apiUrl.toString());
+  apiUrl.searchParams.set("key", YOUTUBE_API_KEY ?? "");
+  const response = await fetchUpstream(apiUrl.toString());
   if (!response.ok) {
     const text = await response.text();
     throw new Error(`YouTube API error: ${response.status} ${text}`);
@@ -855,7 +2777,7 @@ async function getWowAccessToken() {
     return wowTokenCache.accessToken;
   }
   const credentials = Buffer.from(`${WOW_CLIENT_ID}:${WOW_CLIENT_SECRET}`).toString("base64");
-  const response = await fetch("https://oauth.battle.net/token", {
+  const response = await fetchUpstream("https://oauth.battle.net/token", {
     method: "POST",
     headers: {
       Authorization: `Basic ${credentials}`,
@@ -881,12 +2803,12 @@ async function fetchWowSpellData(spellId) {
   const spellUrl = `https://${region}.api.blizzard.com/data/wow/spell/${spellId}?namespace=${namespace}&locale=${locale}`;
   const mediaUrl = `https://${region}.api.blizzard.com/data/wow/media/spell/${spellId}?namespace=${namespace}&locale=${locale}`;
   const [spellResp, mediaResp] = await Promise.all([
-    fetch(spellUrl, {
+    fetchUpstream(spellUrl, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     }),
-    fetch(mediaUrl, {
+    fetchUpstream(mediaUrl, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
@@ -910,31 +2832,6 @@ async function fetchWowSpellData(spellId) {
   };
 }
 
-function findIconOverrideByName(name) {
-  if (!name) return null;
-  const key = name.trim().toLowerCase();
-  return ICON_NAME_OVERRIDES.get(key) ?? null;
-}
-
-const ICON_NAME_OVERRIDES = new Map([
-  ["healthstone", "https://wow.zamimg.com/images/wow/icons/large/inv_stone_04.jpg"],
-  ["invigorating healing potion", "https://wow.zamimg.com/images/wow/icons/large/inv_alchemy_80_orange.jpg"],
-  ["mass barrier", "https://wow.zamimg.com/images/wow/icons/large/spell_mage_massbarrier.jpg"],
-  ["ice cold", "https://wow.zamimg.com/images/wow/icons/large/spell_frost_frostarmor.jpg"],
-  ["dark pact", "https://wow.zamimg.com/images/wow/icons/large/spell_shadow_deathpact.jpg"],
-  ["unending resolve", "https://wow.zamimg.com/images/wow/icons/large/spell_shadow_demonictactics.jpg"],
-  ["mortal coil", "https://wow.zamimg.com/images/wow/icons/large/ability_warlock_mortalcoil.jpg"],
-  ["demonic healthstone", "https://wow.zamimg.com/images/wow/icons/large/spell_shadow_soulgem.jpg"],
-  ["prismatic barrier", "https://wow.zamimg.com/images/wow/icons/large/spell_mage_prismaticshield.jpg"],
-  ["alter time", "https://wow.zamimg.com/images/wow/icons/large/spell_mage_altertime.jpg"],
-  ["ice barrier", "https://wow.zamimg.com/images/wow/icons/large/spell_ice_lament.jpg"],
-  ["fortitude of the bear", "https://wow.zamimg.com/images/wow/icons/large/ability_hunter_survivalinstincts.jpg"],
-  ["earth elemental", "https://wow.zamimg.com/images/wow/icons/large/spell_nature_earthelemental_totem.jpg"],
-  ["stone bulwark totem", "https://wow.zamimg.com/images/wow/icons/large/spell_nature_stoneclawtotem.jpg"],
-  ["zephyr", "https://wow.zamimg.com/images/wow/icons/large/ability_evoker_hover.jpg"],
-  ["survival of the fittest", "https://wow.zamimg.com/images/wow/icons/large/ability_hunter_survivalofthefittest.jpg"],
-]);
-
 function getNumericId(value) {
   if (typeof value === "number" && Number.isFinite(value)) {
     return value;
@@ -978,80 +2875,826 @@ export function createApp() {
   });
 
   app.post("/api/defensives", handleDefensivesRequest);
+  app.post("/api/defensives/timeline", handleDefensiveTimelineRequest);
+  app.post("/api/defensives/trends", handleDefensiveTrendsRequest);
+  app.get("/api/defensives/catalog", handleDefensiveCatalogRequest);
+  app.post("/api/defensives/catalog", handleDefensiveCatalogRequest);
   app.get("/api/youtube/live-start", handleYoutubeLiveStartRequest);
   app.post("/api/report", handleReportRequest);
+  app.get("/api/report/live", handleReportLiveRequest);
+  app.get("/api/status", handleStatusRequest);
+  app.get("/api/access", handleAccessRequest);
+  app.post("/api/access", handleAccessRequest);
+  app.get("/api/usage", handleUsageRequest);
+  app.get("/metrics", handleMetricsRequest);
+  app.get("/api/metrics", handleMetricsRequest);
+  app.get("/api/auth/login", handleAuthLoginRequest);
+  app.get("/api/auth/callback", handleAuthCallbackRequest);
+  app.get("/api/auth/session", handleAuthSessionRequest);
+  app.post("/api/auth/logout", handleAuthLogoutRequest);
 
   return app;
 }
 
-export async function handleDefensivesRequest(req, res) {
+export const handleDefensivesRequest = withRequestContext("/api/defensives", async (req, res) => {
   if (!ensureCors(req, res)) {
     return;
   }
   if (!enforceMethod(req, res, "POST")) {
     return;
   }
+  if (!admitClientRequest(req, res, "/api/defensives")) {
+    return;
+  }
   const reportId = (req.body?.reportId || "").trim();
   if (!reportId) {
     return sendJson(res, 400, { error: "reportId is required." });
   }
-  if (!WCL_CLIENT_ID || !WCL_CLIENT_SECRET) {
+  if (!hasWclCredentials()) {
     return sendJson(res, 500, { error: "Server missing WCL OAuth credentials." });
   }
+  let include;
+  let fightFilter;
+  try {
+    include = resolveIncludedSections(
+      req.body?.include ?? getQueryParam(req, "include"),
+      DEFENSIVE_INCLUDE_SECTIONS,
+    );
+    fightFilter = parseDefensiveFightFilter(req.body);
+  } catch (error) {
+    return sendJson(res, 400, { error: error.message });
+  }
   try {
-    const data = await fetchDefensiveUsage(reportId);
+    const data = await fetchDefensiveUsage(reportId, { include, fightFilter, userAuth: getUserAuth(req) });
     return sendJson(res, 200, data);
   } catch (error) {
-    console.error("[logtime] /api/defensives error:", error);
-    return sendJson(res, 500, { error: error.message || "Unexpected server error." });
+    return sendUpstreamError(res, "/api/defensives", error);
   }
-}
+});
+
+export const handleDefensiveTimelineRequest = withRequestContext("/api/defensives/timeline", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "POST")) {
+    return;
+  }
+  if (!admitClientRequest(req, res, "/api/defensives/timeline")) {
+    return;
+  }
+  const reportId = (req.body?.reportId || "").trim();
+  const fightId = getNumericId(req.body?.fightId);
+  if (!reportId || fightId == null || !Number.isInteger(fightId)) {
+    return sendJson(res, 400, { error: "reportId and fightId are required." });
+  }
+  if (!hasWclCredentials()) {
+    return sendJson(res, 500, { error: "Server missing WCL OAuth credentials." });
+  }
+  try {
+    const data = await fetchDefensiveTimeline(reportId, fightId, { userAuth: getUserAuth(req) });
+    if (!data) {
+      return sendJson(res, 404, { error: `Fight ${fightId} is not in report ${reportId}.` });
+    }
+    return sendJson(res, 200, data);
+  } catch (error) {
+    return sendUpstreamError(res, "/api/defensives/timeline", error);
+  }
+});
+
+/** POST compares defensive usage across several reports or a guild's reports in a date range. */
+export const handleDefensiveTrendsRequest = withRequestContext("/api/defensives/trends", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "POST")) {
+    return;
+  }
+  let request;
+  try {
+    request = parseDefensiveTrendsRequest(req.body);
+  } catch (error) {
+    return sendJson(res, 400, { error: error.message });
+  }
+  // Every report needs its own report and table queries, so each one is charged to the client budget.
+  // A guild search is charged for the search plus the report limit, and refunded the reports it lacks.
+  const cost = request.guild ? 1 + DEFENSIVE_TRENDS_REPORT_LIMIT : request.reportIds.length;
+  if (!admitClientRequest(req, res, "/api/defensives/trends", { cost })) {
+    return;
+  }
+  if (!hasWclCredentials()) {
+    return sendJson(res, 500, { error: "Server missing WCL OAuth credentials." });
+  }
+  try {
+    const data = await fetchDefensiveTrends({
+      ...request,
+      userAuth: getUserAuth(req),
+      onGuildReports: (count) => refundClientRequest(req, DEFENSIVE_TRENDS_REPORT_LIMIT - count),
+    });
+    return sendJson(res, 200, data);
+  } catch (error) {
+    return sendUpstreamError(res, "/api/defensives/trends", error);
+  }
+});
 
-export async function handleYoutubeLiveStartRequest(req, res) {
+/** GET returns the defensive catalog; POST (admin key) re-reads it from disk. */
+export const handleDefensiveCatalogRequest = withRequestContext("/api/defensives/catalog", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, ["GET", "POST"])) {
+    return;
+  }
+  if (String(req.method).toUpperCase() === "GET") {
+    return sendJson(res, 200, describeDefensiveCatalog());
+  }
+  if (!ADMIN_KEY) {
+    return sendJson(res, 404, { error: "Catalog reloads are off; set LOGTIME_ADMIN_KEY to enable them." });
+  }
+  if (!isAdminRequest(req)) {
+    return sendJson(res, 401, { error: "Admin key required." });
+  }
+  try {
+    defensiveCatalog = loadDefensiveCatalog(DEFENSIVE_CATALOG_SOURCE);
+  } catch (error) {
+    logEvent("error", "Defensive catalog reload rejected", { error });
+    return sendJson(res, 422, { error: error.message });
+  }
+  // Icons were looked up for the previous spell list.
+  abilityIconCache = null;
+  return sendJson(res, 200, describeDefensiveCatalog());
+});
+
+export const handleYoutubeLiveStartRequest = withRequestContext("/api/youtube/live-start", async (req, res) => {
   if (!ensureCors(req, res)) {
     return;
   }
   if (!enforceMethod(req, res, "GET")) {
     return;
   }
+  if (!admitClientRequest(req, res, "/api/youtube/live-start")) {
+    return;
+  }
   const rawVideoId = getQueryParam(req, "videoId");
   const videoId = (rawVideoId || "").toString().trim();
   if (!videoId) {
     return sendJson(res, 400, { error: "videoId is required." });
   }
-  if (!YOUTUBE_API_KEY) {
+  if (!hasYoutubeApiKey()) {
     return sendJson(res, 500, { error: "Server missing YOUTUBE_API_KEY." });
   }
   try {
     const data = await fetchYoutubeLiveStart(videoId);
     return sendJson(res, 200, data ?? { startEpochSeconds: null });
   } catch (error) {
-    console.error("[logtime] /api/youtube/live-start error:", error);
+    logEvent("error", "YouTube live start lookup failed", { videoId, error, stack: error?.stack });
     return sendJson(res, 500, { error: error.message || "Failed to load YouTube live metadata." });
   }
-}
+});
 
-export async function handleReportRequest(req, res) {
+export const handleReportRequest = withRequestContext("/api/report", async (req, res) => {
   if (!ensureCors(req, res)) {
     return;
   }
   if (!enforceMethod(req, res, "POST")) {
     return;
   }
+  if (!admitClientRequest(req, res, "/api/report")) {
+    return;
+  }
   const reportId = (req.body?.reportId || "").trim();
   if (!reportId) {
     return sendJson(res, 400, { error: "reportId is required." });
   }
-  if (!WCL_CLIENT_ID || !WCL_CLIENT_SECRET) {
+  if (!hasWclCredentials()) {
     return sendJson(res, 500, { error: "Server missing WCL OAuth credentials." });
   }
+  let include;
+  let trackedAbilities;
   try {
-    const data = await fetchReport(reportId);
+    include = resolveIncludedSections(
+      req.body?.include ?? getQueryParam(req, "include"),
+      REPORT_INCLUDE_SECTIONS,
+      REPORT_INCLUDE_ALIASES,
+    );
+    trackedAbilities = resolveTrackedAbilities(req.body?.trackedAbilities);
+  } catch (error) {
+    return sendJson(res, 400, { error: error.message });
+  }
+  const bust = Boolean(req.body?.bust) || ["1", "true"].includes(String(getQueryParam(req, "bust") ?? ""));
+  try {
+    const data = await fetchReport(reportId, {
+      include,
+      includeTrash: Boolean(req.body?.includeTrash),
+      trackedAbilities,
+      live: Boolean(req.body?.live),
+      bust,
+      userAuth: getUserAuth(req),
+    });
+    setReportCacheHeaders(res, data.cache);
     return sendJson(res, 200, data);
   } catch (error) {
-    console.error("[logtime] /api/report error:", error);
-    return sendJson(res, 500, { error: error.message || "Unexpected server error." });
+    return sendUpstreamError(res, "/api/report", error);
+  }
+});
+
+/**
+ * Server-Sent Events stream for live sessions: a `snapshot` event with the full report payload, then
+ * `fights` events carrying only new or changed fights. Upstream failures arrive as `problem` events.
+ */
+export const handleReportLiveRequest = withRequestContext("/api/report/live", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "GET")) {
+    return;
+  }
+  if (!admitClientRequest(req, res, "/api/report/live")) {
+    return;
+  }
+  const reportId = String(getQueryParam(req, "reportId") ?? "").trim();
+  if (!reportId) {
+    return sendJson(res, 400, { error: "reportId is required." });
+  }
+  if (!hasWclCredentials()) {
+    return sendJson(res, 500, { error: "Server missing WCL OAuth credentials." });
+  }
+  let include;
+  let trackedAbilities;
+  try {
+    include = resolveIncludedSections(
+      getQueryParam(req, "include"),
+      REPORT_INCLUDE_SECTIONS,
+      REPORT_INCLUDE_ALIASES,
+    );
+    const rawTracked = getQueryParam(req, "trackedAbilities");
+    trackedAbilities = resolveTrackedAbilities(rawTracked ? JSON.parse(rawTracked) : null);
+  } catch (error) {
+    return sendJson(res, 400, { error: error.message });
+  }
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders?.();
+  res.write(`retry: ${LIVE_WATCH_INTERVAL_MS}\n\n`);
+
+  const subscriber = {
+    res,
+    include,
+    includeTrash: ["1", "true"].includes(String(getQueryParam(req, "includeTrash") ?? "")),
+    trackedAbilities,
+    userAuth: getUserAuth(req),
+    sent: new Map(),
+  };
+  subscribeLiveWatcher(reportId, subscriber);
+  req.on("close", () => unsubscribeLiveWatcher(reportId, subscriber));
+});
+
+export const handleAuthLoginRequest = withRequestContext("/api/auth/login", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "GET")) {
+    return;
+  }
+  if (!WCL_CLIENT_ID || !WCL_CLIENT_SECRET || !SESSION_SECRET) {
+    return sendJson(res, 500, { error: "Server missing WCL OAuth credentials or LOGTIME_SESSION_SECRET." });
+  }
+  const origin = getPublicOrigin(req);
+  if (!origin) {
+    logEvent("warn", "Login refused for a host outside the allowed origins", { host: req?.headers?.host });
+    return sendJson(res, 403, { error: "Origin not allowed. Set LOGTIME_PUBLIC_URL to this site's address." });
+  }
+  const verifier = randomBytes(32).toString("base64url");
+  const state = randomBytes(16).toString("base64url");
+  const redirectUri = WCL_REDIRECT_URI ?? `${origin}/api/auth/callback`;
+  const login = {
+    state,
+    verifier,
+    redirectUri,
+    returnTo: `${origin}${sanitizeReturnPath(getQueryParam(req, "returnTo"))}`,
+    expiresAt: Date.now() + LOGIN_TTL_SECONDS * 1000,
+  };
+  appendSetCookie(res, serializeCookie(LOGIN_COOKIE, sealValue(login), { req, maxAge: LOGIN_TTL_SECONDS }));
+
+  const authorizeUrl = new URL(AUTHORIZE_URL);
+  authorizeUrl.searchParams.set("client_id", WCL_CLIENT_ID);
+  authorizeUrl.searchParams.set("response_type", "code");
+  authorizeUrl.searchParams.set("redirect_uri", redirectUri);
+  authorizeUrl.searchParams.set("state", state);
+  authorizeUrl.searchParams.set("code_challenge", createHash("sha256").update(verifier).digest("base64url"));
+  authorizeUrl.searchParams.set("code_challenge_method", "S256");
+  return sendRedirect(res, authorizeUrl.toString());
+});
+
+export const handleAuthCallbackRequest = withRequestContext("/api/auth/callback", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "GET")) {
+    return;
+  }
+  const login = unsealValue(parseCookies(req)[LOGIN_COOKIE]);
+  appendSetCookie(res, serializeCookie(LOGIN_COOKIE, "", { req, maxAge: 0 }));
+  if (!login || login.expiresAt < Date.now() || login.state !== getQueryParam(req, "state")) {
+    return sendJson(res, 400, { error: "Login expired or state mismatch. Start the login again." });
+  }
+  const code = getQueryParam(req, "code");
+  if (!code) {
+    // The user declined access on Warcraft Logs.
+    return sendRedirect(res, login.returnTo);
+  }
+  try {
+    const session = await exchangeAuthorizationCode(code, login);
+    const maxAge = Math.min(SESSION_MAX_AGE_SECONDS, Math.floor((session.expiresAt - Date.now()) / 1000));
+    appendSetCookie(res, serializeCookie(SESSION_COOKIE, sealValue(session), { req, maxAge }));
+    logEvent("info", "User signed in", { user: session.userName ?? null });
+    return sendRedirect(res, login.returnTo);
+  } catch (error) {
+    return sendUpstreamError(res, "/api/auth/callback", error);
+  }
+});
+
+export const handleAuthSessionRequest = withRequestContext("/api/auth/session", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "GET")) {
+    return;
+  }
+  const userAuth = getUserAuth(req);
+  return sendJson(res, 200, {
+    loggedIn: Boolean(userAuth),
+    userName: userAuth?.userName ?? null,
+    loginAvailable: Boolean(WCL_CLIENT_ID && WCL_CLIENT_SECRET && SESSION_SECRET),
+  });
+});
+
+export const handleAuthLogoutRequest = withRequestContext("/api/auth/logout", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "POST")) {
+    return;
+  }
+  appendSetCookie(res, serializeCookie(SESSION_COOKIE, "", { req, maxAge: 0 }));
+  return sendJson(res, 200, { loggedIn: false });
+});
+
+export const handleStatusRequest = withRequestContext("/api/status", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "GET")) {
+    return;
+  }
+  const { limitPerHour, pointsSpentThisHour, pointsResetIn, checkedAt } = rateLimitState;
+  return sendJson(res, 200, {
+    rateLimit: {
+      limitPerHour,
+      pointsSpentThisHour,
+      pointsRemaining:
+        limitPerHour != null && pointsSpentThisHour != null ? Math.max(0, limitPerHour - pointsSpentThisHour) : null,
+      pointsResetIn,
+      checkedAt: checkedAt ? new Date(checkedAt).toISOString() : null,
+    },
+    queue: {
+      active: wclQueue.active,
+      pending: wclQueue.pending.length,
+      pausedForSeconds: Math.max(0, Math.ceil((wclQueue.pausedUntil - Date.now()) / 1000)),
+    },
+    live: {
+      reports: liveWatchers.size,
+      subscribers: Array.from(liveWatchers.values()).reduce((sum, watcher) => sum + watcher.subscribers.size, 0),
+    },
+    cache: {
+      directory: REPORT_CACHE_DIR,
+      reportsInMemory: reportCache.size,
+      requestsInFlight: reportFetchesInFlight.size,
+      ...reportCacheStats,
+    },
+    access: {
+      required: isAccessRequired(),
+      budgetWindowSeconds: CLIENT_BUDGET_WINDOW_MS / 1000,
+      perIpBudget: IP_BUDGET,
+      perKeyBudget: KEY_BUDGET,
+      ...accessStats,
+    },
+  });
+});
+
+/**
+ * `GET` tells the client whether the proxy is locked and whether this browser is let in; `POST` with
+ * `{ secret }` checks a team password or API key and remembers it in an HTTP-only cookie.
+ */
+export const handleAccessRequest = withRequestContext("/api/access", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, ["GET", "POST"])) {
+    return;
+  }
+  const required = isAccessRequired();
+  const methods = { keys: ACCESS_KEYS.length > 0, password: Boolean(TEAM_PASSWORD) };
+  if (String(req.method).toUpperCase() === "GET") {
+    const client = identifyAccessClient(req);
+    return sendJson(res, 200, { required, granted: !required || Boolean(client), name: client, methods });
+  }
+  // Password guesses spend the caller's IP budget like any other request.
+  if (!admitClientRequest(req, res, "/api/access", { requireAccess: false })) {
+    return;
+  }
+  if (!required) {
+    return sendJson(res, 200, { required, granted: true, name: null, methods });
+  }
+  const name = matchAccessSecret(String(req.body?.secret ?? ""));
+  if (!name) {
+    logEvent("warn", "Access secret rejected", { ip: getClientIp(req) });
+    return sendJson(res, 401, { error: "Wrong team password or API key.", accessRequired: true });
+  }
+  const cookie = serializeCookie(ACCESS_COOKIE, signAccessCookie(name), { req, maxAge: ACCESS_MAX_AGE_SECONDS });
+  appendSetCookie(res, cookie);
+  return sendJson(res, 200, { required, granted: true, name, methods });
+});
+
+/** Per-key and per-IP request counters for the operator; needs `LOGTIME_ADMIN_KEY` as a bearer token. */
+export const handleUsageRequest = withRequestContext("/api/usage", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "GET")) {
+    return;
+  }
+  if (!ADMIN_KEY) {
+    return sendJson(res, 404, { error: "Usage reporting is off; set LOGTIME_ADMIN_KEY to enable it." });
+  }
+  if (!isAdminRequest(req)) {
+    return sendJson(res, 401, { error: "Admin key required." });
+  }
+  return sendJson(res, 200, {
+    budgetWindowSeconds: CLIENT_BUDGET_WINDOW_MS / 1000,
+    perIpBudget: IP_BUDGET,
+    perKeyBudget: KEY_BUDGET,
+    totals: accessStats,
+    keys: describeClientUsage(clientUsage.key),
+    ips: describeClientUsage(clientUsage.ip),
+  });
+});
+
+/** Prometheus scrape target. Open unless `LOGTIME_ADMIN_KEY` is set, then it needs that bearer token. */
+export const handleMetricsRequest = withRequestContext("/metrics", async (req, res) => {
+  if (!ensureCors(req, res)) {
+    return;
+  }
+  if (!enforceMethod(req, res, "GET")) {
+    return;
+  }
+  if (ADMIN_KEY && !isAdminRequest(req)) {
+    return sendJson(res, 401, { error: "Admin key required." });
+  }
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.end(renderMetrics());
+});
+
+function isAdminRequest(req) {
+  const token = readBearerToken(req) ?? req?.headers?.["x-logtime-admin-key"];
+  return Boolean(ADMIN_KEY && token && safeEqual(String(token), ADMIN_KEY));
+}
+
+async function exchangeAuthorizationCode(code, login) {
+  const credentials = Buffer.from(`${WCL_CLIENT_ID}:${WCL_CLIENT_SECRET}`).toString("base64");
+  const response = await fetchUpstream(OAUTH_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      client_id: WCL_CLIENT_ID,
+      code,
+      redirect_uri: login.redirectUri,
+      code_verifier: login.verifier,
+    }).toString(),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to complete Warcraft Logs login: ${response.status} ${text}`);
+  }
+  const data = await response.json();
+  const auth = { accessToken: data.access_token, graphqlUrl: USER_GRAPHQL_URL, scope: null };
+  const userData = await callGraphQL(auth, CURRENT_USER_QUERY, {});
+  const user = userData?.userData?.currentUser ?? null;
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + asNumber(data.expires_in, SESSION_MAX_AGE_SECONDS) * 1000,
+    userId: user?.id ?? null,
+    userName: user?.name ?? null,
+  };
+}
+
+/**
+ * Gatekeeper for the routes that spend WCL points or the YouTube quota. When API keys or a team password
+ * are configured the caller must present one; then the request is charged `cost` units (capped at the
+ * budget) to the caller's IP and key budgets. Sends the 401/429 response itself and returns false when
+ * the request must stop.
+ */
+function admitClientRequest(req, res, route, { requireAccess = true, cost = 1 } = {}) {
+  const ip = getClientIp(req);
+  const client = identifyAccessClient(req);
+  if (requireAccess && isAccessRequired() && !client) {
+    accessStats.unauthorized += 1;
+    logEvent("warn", "Request refused without a valid access key", { route, ip });
+    sendJson(res, 401, { error: "This proxy needs an API key or the team password.", accessRequired: true });
+    return false;
+  }
+  const now = Date.now();
+  const records = [[touchClientUsage(clientUsage.ip, ip, now), IP_BUDGET]];
+  if (client) {
+    records.push([touchClientUsage(clientUsage.key, client, now), KEY_BUDGET]);
+  }
+  const units = (budget) => (budget > 0 ? Math.min(cost, budget) : cost);
+  const waitMs = Math.max(
+    ...records.map(([record, budget]) =>
+      budget > 0 && record.count + units(budget) > budget ? record.windowStart + CLIENT_BUDGET_WINDOW_MS - now : 0,
+    ),
+  );
+  if (waitMs > 0) {
+    const retryAfterSeconds = Math.max(1, Math.ceil(waitMs / 1000));
+    records.forEach(([record]) => {
+      record.limited += 1;
+    });
+    accessStats.limited += 1;
+    logEvent("warn", "Client request budget used up", { route, ip, client, retryAfterSeconds });
+    if (typeof res?.setHeader === "function") {
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+    }
+    sendJson(res, 429, {
+      error: `Request budget used up; retry in ${retryAfterSeconds} s.`,
+      retryAfterSeconds,
+      source: "proxy",
+    });
+    return false;
+  }
+  records.forEach(([record, budget]) => {
+    record.count += units(budget);
+    record.requests += 1;
+  });
+  accessStats.allowed += 1;
+  return true;
+}
+
+// Hands back units charged up front for work the request turned out not to need.
+function refundClientRequest(req, units) {
+  if (units <= 0) {
+    return;
+  }
+  [
+    [clientUsage.ip, getClientIp(req)],
+    [clientUsage.key, identifyAccessClient(req)],
+  ].forEach(([usage, id]) => {
+    const record = id ? usage.get(id) : null;
+    if (record) {
+      record.count = Math.max(0, record.count - units);
+    }
+  });
+}
+
+function isAccessRequired() {
+  return ACCESS_KEYS.length > 0 || Boolean(TEAM_PASSWORD);
+}
+
+// Budgets reset in fixed windows; the least recently seen clients are dropped past CLIENT_USAGE_LIMIT.
+function touchClientUsage(usage, id, now) {
+  const record = usage.get(id) ?? { windowStart: now, count: 0, requests: 0, limited: 0, lastSeenAt: now };
+  if (now - record.windowStart >= CLIENT_BUDGET_WINDOW_MS) {
+    record.windowStart = now;
+    record.count = 0;
+  }
+  record.lastSeenAt = now;
+  usage.delete(id);
+  usage.set(id, record);
+  if (usage.size > CLIENT_USAGE_LIMIT) {
+    usage.delete(usage.keys().next().value);
+  }
+  return record;
+}
+
+function describeClientUsage(usage) {
+  return Array.from(usage.entries())
+    .map(([id, record]) => ({
+      id,
+      requests: record.requests,
+      limited: record.limited,
+      windowRequests: Date.now() - record.windowStart < CLIENT_BUDGET_WINDOW_MS ? record.count : 0,
+      lastSeenAt: new Date(record.lastSeenAt).toISOString(),
+    }))
+    .sort((a, b) => b.requests - a.requests);
+}
+
+// Resolves the caller to a key name from `X-Logtime-Key`, a bearer token or the cookie set by /api/access.
+function identifyAccessClient(req) {
+  const header = req?.headers?.["x-logtime-key"] ?? readBearerToken(req);
+  if (header) {
+    return matchAccessSecret(String(header));
+  }
+  return readAccessCookie(req);
+}
+
+function matchAccessSecret(secret) {
+  const match = ACCESS_KEYS.find(({ key }) => safeEqual(secret, key));
+  if (match) {
+    return match.name;
+  }
+  return TEAM_PASSWORD && safeEqual(secret, TEAM_PASSWORD) ? "team" : null;
+}
+
+function readBearerToken(req) {
+  const header = req?.headers?.authorization;
+  const match = typeof header === "string" ? header.match(/^Bearer\s+(.+)$/i) : null;
+  return match ? match[1].trim() : null;
+}
+
+function safeEqual(a, b) {
+  return timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+}
+
+// Access cookies are `name.expiry.hmac`; changing any key or the password invalidates all of them.
+function signAccessCookie(name) {
+  const payload = `${Buffer.from(name).toString("base64url")}.${Date.now() + ACCESS_MAX_AGE_SECONDS * 1000}`;
+  return `${payload}.${createHmac("sha256", getAccessCookieKey()).update(payload).digest("base64url")}`;
+}
+
+function readAccessCookie(req) {
+  const value = parseCookies(req)[ACCESS_COOKIE];
+  const [encodedName, expiresAt, signature] = typeof value === "string" ? value.split(".") : [];
+  if (!encodedName || !expiresAt || !signature || Number(expiresAt) < Date.now()) {
+    return null;
+  }
+  const expected = createHmac("sha256", getAccessCookieKey())
+    .update(`${encodedName}.${expiresAt}`)
+    .digest("base64url");
+  return safeEqual(signature, expected) ? Buffer.from(encodedName, "base64url").toString("utf8") : null;
+}
+
+function getAccessCookieKey() {
+  const secrets = [SESSION_SECRET ?? "", TEAM_PASSWORD ?? "", ...ACCESS_KEYS.map(({ key }) => key)];
+  return createHash("sha256").update(`logtime-access:${secrets.join("\n")}`).digest();
+}
+
+// Behind Vercel or another reverse proxy (LOGTIME_TRUST_PROXY=1) the client address is X-Forwarded-For.
+function getClientIp(req) {
+  const forwarded = TRUST_PROXY ? String(req?.headers?.["x-forwarded-for"] ?? "").split(",")[0].trim() : "";
+  return forwarded || req?.socket?.remoteAddress || req?.ip || "unknown";
+}
+
+function parseAccessKeys(raw) {
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      return separator > 0
+        ? { name: entry.slice(0, separator).trim(), key: entry.slice(separator + 1).trim() }
+        : { name: `key-${index + 1}`, key: entry };
+    })
+    .filter(({ key }) => key.length > 0);
+}
+
+// Budgets of 0 switch that limit off.
+function readBudgetEnv(name, fallback) {
+  const raw = process.env[name] ?? process.env[name.toLowerCase()];
+  const value = Number(raw);
+  return raw != null && raw !== "" && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/** The signed-in user's WCL credentials from the session cookie, or null for anonymous requests. */
+function getUserAuth(req) {
+  if (!SESSION_SECRET) {
+    return null;
+  }
+  const session = unsealValue(parseCookies(req)[SESSION_COOKIE]);
+  if (!session?.accessToken || session.expiresAt < Date.now()) {
+    return null;
+  }
+  return {
+    accessToken: session.accessToken,
+    graphqlUrl: USER_GRAPHQL_URL,
+    scope: createHash("sha1").update(`wcl-user:${session.userId ?? session.accessToken}`).digest("hex").slice(0, 16),
+    userName: session.userName ?? null,
+  };
+}
+
+function sealValue(payload) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getSessionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(payload), "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64url");
+}
+
+function unsealValue(value) {
+  if (!value || !SESSION_SECRET) {
+    return null;
+  }
+  try {
+    const raw = Buffer.from(value, "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", getSessionKey(), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    return JSON.parse(Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString("utf8"));
+  } catch {
+    // tampered, truncated or sealed with an older secret
+    return null;
+  }
+}
+
+function getSessionKey() {
+  return createHash("sha256").update(SESSION_SECRET).digest();
+}
+
+function parseCookies(req) {
+  const header = req?.headers?.cookie;
+  const cookies = {};
+  if (typeof header !== "string") {
+    return cookies;
+  }
+  header.split(";").forEach((part) => {
+    const index = part.indexOf("=");
+    if (index <= 0) return;
+    const name = part.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // ignore malformed cookie values
+    }
+  });
+  return cookies;
+}
+
+function serializeCookie(name, value, { req, maxAge }) {
+  const parts = [`${name}=${encodeURIComponent(value)}`, "Path=/", "HttpOnly", "SameSite=Lax", `Max-Age=${maxAge}`];
+  if (isSecureRequest(req)) {
+    parts.push("Secure");
+  }
+  return parts.join("; ");
+}
+
+function appendSetCookie(res, cookie) {
+  if (typeof res?.setHeader !== "function") {
+    return;
+  }
+  const existing = typeof res.getHeader === "function" ? res.getHeader("Set-Cookie") : null;
+  const cookies = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+  res.setHeader("Set-Cookie", [...cookies, cookie]);
+}
+
+function isSecureRequest(req) {
+  const forwardedProto = String(req?.headers?.["x-forwarded-proto"] ?? "").split(",")[0].trim();
+  return forwardedProto === "https" || Boolean(req?.socket?.encrypted);
+}
+
+/**
+ * The site's origin for OAuth redirects: LOGTIME_PUBLIC_URL, else the request's Host if it is an allowed
+ * origin. `Referer` and `X-Forwarded-Host` are never read, since any page could send the user here with
+ * its own origin in them. Returns null when the Host is missing or not allowed.
+ */
+function getPublicOrigin(req) {
+  if (PUBLIC_URL) {
+    return PUBLIC_URL.replace(/\/+$/, "");
+  }
+  const host = req?.headers?.host;
+  if (typeof host !== "string" || !/^[A-Za-z0-9.-]+(:\d+)?$|^\[[0-9A-Fa-f:]+\](:\d+)?$/.test(host)) {
+    return null;
+  }
+  const origin = `${isSecureRequest(req) ? "https" : "http"}://${host}`;
+  return isOriginAllowed(origin) ? origin : null;
+}
+
+function sanitizeReturnPath(value) {
+  const pathValue = typeof value === "string" ? value : "/";
+  return pathValue.startsWith("/") && !pathValue.startsWith("//") ? pathValue : "/";
+}
+
+function sendRedirect(res, location) {
+  res.statusCode = 302;
+  res.setHeader("Location", location);
+  res.end();
+}
+
+function sendUpstreamError(res, route, error) {
+  if (error?.status === 429) {
+    const retryAfterSeconds = error.retryAfterSeconds ?? 60;
+    logEvent("warn", "Rate limited by WCL", { route, retryAfterSeconds });
+    if (typeof res?.setHeader === "function") {
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+    }
+    return sendJson(res, 429, { error: error.message, retryAfterSeconds });
   }
+  logEvent("error", "Request failed", { route, error, stack: error?.stack });
+  return sendJson(res, 500, { error: error.message || "Unexpected server error." });
 }
 
 function enforceMethod(req, res, allowed) {
@@ -1088,7 +3731,7 @@ function sendJson(res, status, payload) {
         return;
       }
     } catch (error) {
-      console.error("[logtime] Failed to send JSON response:", error);
+      logEvent("error", "Failed to send JSON response", { error });
     }
   }
 }
@@ -1099,7 +3742,7 @@ function ensureCors(req, res) {
   }
   const origin = getRequestOrigin(req);
   if (!isOriginAllowed(origin)) {
-    console.warn(`[logtime] Blocked CORS origin: ${origin}`);
+    logEvent("warn", "Blocked CORS origin", { origin });
     sendJson(res, 403, { error: "Origin not allowed." });
     return false;
   }
@@ -1148,7 +3791,7 @@ function setCorsHeaders(res, origin) {
   res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
   res.setHeader(
     "Access-Control-Allow-Headers",
-    "Content-Type,Authorization,X-Logtime-Token",
+    "Content-Type,Authorization,X-Logtime-Token,X-Logtime-Key,X-Logtime-Admin-Key",
   );
   res.setHeader("Access-Control-Max-Age", "86400");
 }
@@ -1173,7 +3816,7 @@ function endCorsPreflight(res) {
       }
     }
   } catch (error) {
-    console.error("[logtime] Failed to send CORS preflight response:", error);
+    logEvent("error", "Failed to send CORS preflight response", { error });
   }
 }
 
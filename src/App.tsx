@@ -1,19 +1,51 @@
 import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
-import VideoPlayer, { type VideoPlayerHandle } from "./components/VideoPlayer";
+import VideoPlayer, { type VideoPlayerHandle, type VideoPlayerPart } from "./components/VideoPlayer";
 import DefensiveUsagePage from "./components/DefensiveUsagePage";
+import CalibrationPanel from "./components/CalibrationPanel";
+import ChapterExportPanel from "./components/ChapterExportPanel";
+import DeathAnalyticsPanel from "./components/DeathAnalyticsPanel";
+import ProgressionChart from "./components/ProgressionChart";
+import AccessGate from "./components/AccessGate";
+import AccountStatus from "./components/AccountStatus";
 import {
   buildBossFightRows,
-  fetchReportFights,
+  fetchSessionReports,
+  mergeReportPayloads,
+  getBossPullLogSeconds,
   formatDuration,
   formatHhmmss,
   parseHhmmss,
+  parseReportIdList,
   type FightRow,
   type ReportMeta,
   type ActorInfo,
   type RawFight,
+  type ReportPayload,
+  type TrackedAbilityGroup,
+  type TrackedAbilityInput,
 } from "./lib/logtime";
+import { formatTrackedAbilityList, parseTrackedAbilityList } from "./lib/trackedAbilities";
+import { describeRateLimitWait, isRateLimitError, retryWhenRateLimited } from "./lib/rateLimit";
+import { applyLiveFights, mergeFightRows, subscribeToLiveReport } from "./lib/liveUpdates";
 import { detectVideoSource, fetchYoutubeLiveStart, type VideoSource } from "./lib/video";
 import { getClassColor } from "./lib/classColors";
+import type { DefensiveReviewTarget } from "./lib/defensives";
+import {
+  logToVideoSeconds,
+  normalizeAnchors,
+  parseSyncPointList,
+  resolvePullSyncPoints,
+  shiftAnchors,
+  videoToLogSeconds,
+  type SyncAnchor,
+} from "./lib/sync";
+import { buildEventCues, formatEventTrack } from "./lib/eventTrack";
+import {
+  calibrationToAnchors,
+  computeCalibration,
+  type CalibrationMark,
+  type CalibrationResult,
+} from "./lib/calibration";
 
 type StatusState =
   | { kind: "idle"; message: "" }
@@ -24,13 +56,29 @@ interface VideoFormEntry {
   url: string;
   firstPull: string;
   label: string;
+  syncPoints: string;
+  anchors?: SyncAnchor[];
+  parts: VideoPartFormEntry[];
 }
 
-interface VideoOption {
+/** A continuation file of the same POV (e.g. the VOD after a stream restart). */
+interface VideoPartFormEntry {
+  url: string;
+  syncPoints: string;
+  anchors?: SyncAnchor[];
+}
+
+interface VideoPart {
   url: string;
   source: VideoSource;
+  anchors: SyncAnchor[];
+}
+
+interface VideoOption {
+  url: string;
+  formIndex: number;
+  parts: VideoPart[];
   firstPullSeconds: number;
-  offsetSeconds: number;
   manualOffsetSeconds: number;
   label: string;
   characterName: string | null;
@@ -39,7 +87,10 @@ interface VideoOption {
 interface SharedSessionPayload {
   version: 1;
   reportId: string;
+  reportIds?: string[];
   liveMode: boolean;
+  includeTrash?: boolean;
+  trackedAbilities?: TrackedAbilityInput[];
   videos: SharedSessionVideo[];
 }
 
@@ -48,26 +99,46 @@ interface SharedSessionVideo {
   firstPull: string;
   label: string;
   manualOffsetSeconds?: number;
+  anchors?: SyncAnchor[];
+  parts?: SharedSessionVideoPart[];
+}
+
+interface SharedSessionVideoPart {
+  url: string;
+  anchors: SyncAnchor[];
 }
 
 const emptyVideoEntry: VideoFormEntry = {
   url: "",
   firstPull: "00:00:00",
   label: "",
+  syncPoints: "",
+  parts: [],
+};
+
+const emptyVideoPartEntry: VideoPartFormEntry = {
+  url: "",
+  syncPoints: "",
 };
 
 const createInitialForm = () => ({
   reportId: "",
   videos: [{ ...emptyVideoEntry }],
   liveMode: false,
+  includeTrash: false,
+  trackedAbilities: "",
 });
 
+const TRASH_GROUP_LABEL = "Trash & downtime";
+
 type FormState = ReturnType<typeof createInitialForm>;
 
 interface LoadReviewParams {
-  reportId: string;
+  reportIds: string[];
   videos: VideoFormEntry[];
   liveMode: boolean;
+  includeTrash?: boolean;
+  trackedAbilities?: TrackedAbilityInput[];
   skipAutoFill?: boolean;
   manualOffsets?: number[];
 }
@@ -79,36 +150,53 @@ function App() {
   const [status, setStatus] = useState<StatusState>({ kind: "idle", message: "" });
   const [loading, setLoading] = useState(false);
   const [fights, setFights] = useState<FightRow[]>([]);
+  const fightsRef = useRef<FightRow[]>([]);
+  const [newPulls, setNewPulls] = useState<FightRow[]>([]);
   const [reportMeta, setReportMeta] = useState<ReportMeta | null>(null);
   const [videoOptions, setVideoOptions] = useState<VideoOption[]>([]);
   const [activeVideoIndex, setActiveVideoIndex] = useState(0);
   const [playerSeekRevision, setPlayerSeekRevision] = useState(0);
   const [playerStartSeconds, setPlayerStartSeconds] = useState(0);
-  const [actorClassMap, setActorClassMap] = useState<Record<string, string>>({});
+  const [actors, setActors] = useState<ActorInfo[]>([]);
   const [liveMode, setLiveMode] = useState(false);
-  const [activeReportId, setActiveReportId] = useState<string | null>(null);
+  const [includeTrash, setIncludeTrash] = useState(false);
+  const [trackedAbilities, setTrackedAbilities] = useState<TrackedAbilityInput[]>([]);
+  const [trackedGroups, setTrackedGroups] = useState<TrackedAbilityGroup[]>([]);
+  const [activeReportIds, setActiveReportIds] = useState<string[]>([]);
   const [vodOffsetSeconds, setVodOffsetSeconds] = useState<number | null>(null);
+  const [activePartIndex, setActivePartIndex] = useState(0);
+  const [isChapterExportOpen, setIsChapterExportOpen] = useState(false);
+  const [calibrationMarks, setCalibrationMarks] = useState<Record<string, CalibrationMark[]>>({});
+  const [pendingReviewJump, setPendingReviewJump] = useState<DefensiveReviewTarget | null>(null);
   const playerRef = useRef<VideoPlayerHandle>(null);
   const [currentVideoTime, setCurrentVideoTime] = useState(0);
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const lastPlayerTimeRef = useRef(0);
   const sharedSessionBootRef = useRef(false);
   const shareSessionPayload = useMemo<SharedSessionPayload | null>(() => {
-    if (phase !== "review" || !activeReportId || !videoOptions.length) {
+    if (phase !== "review" || !activeReportIds.length || !videoOptions.length) {
       return null;
     }
     return {
       version: 1,
-      reportId: activeReportId,
+      reportId: activeReportIds[0],
+      reportIds: activeReportIds.length > 1 ? activeReportIds : undefined,
       liveMode,
+      includeTrash: includeTrash || undefined,
+      trackedAbilities: trackedAbilities.length ? trackedAbilities : undefined,
       videos: videoOptions.map((option) => ({
         url: option.url,
         firstPull: formatHhmmss(option.firstPullSeconds),
         label: option.label,
         manualOffsetSeconds: option.manualOffsetSeconds ?? 0,
+        anchors: option.parts[0].anchors.length > 1 ? option.parts[0].anchors : undefined,
+        parts:
+          option.parts.length > 1
+            ? option.parts.slice(1).map((part) => ({ url: part.url, anchors: part.anchors }))
+            : undefined,
       })),
     };
-  }, [activeReportId, liveMode, phase, videoOptions]);
+  }, [activeReportIds, includeTrash, liveMode, phase, trackedAbilities, videoOptions]);
   const shareSessionToken = useMemo(() => {
     if (!shareSessionPayload) {
       return null;
@@ -128,9 +216,23 @@ function App() {
   }, [shareSessionToken]);
 
   const hasVideo = videoOptions.length > 0;
+  const actorClassMap = useMemo(() => buildActorClassMap(actors), [actors]);
   const activeVideo = videoOptions[activeVideoIndex] ?? null;
   const manualOffsetSeconds = videoOptions[activeVideoIndex]?.manualOffsetSeconds ?? 0;
-  const getVideoOffsetSeconds = (index: number) => videoOptions[index]?.offsetSeconds ?? 0;
+  const vodBaseSeconds = vodOffsetSeconds ?? 0;
+  const activePlayerParts = useMemo(
+    () => (activeVideo ? buildPlayerParts(activeVideo, vodBaseSeconds, fights) : null),
+    [activeVideo, vodBaseSeconds, fights],
+  );
+  const calibrationKey = `${activeVideoIndex}:${activePartIndex}`;
+  const activeCalibrationMarks = useMemo(
+    () => calibrationMarks[calibrationKey] ?? [],
+    [calibrationKey, calibrationMarks],
+  );
+  const activeCalibrationResult = useMemo(
+    () => computeCalibration(activeCalibrationMarks),
+    [activeCalibrationMarks],
+  );
 
   useEffect(() => {
     if (!activeVideo) {
@@ -140,41 +242,121 @@ function App() {
       return;
     }
     const interval = setInterval(() => {
-      const localTime = playerRef.current?.getCurrentTime?.() ?? 0;
-      const globalTime = localTime - getVideoOffsetSeconds(activeVideoIndex);
+      const globalTime = playerRef.current?.getCurrentTime?.() ?? 0;
       setCurrentVideoTime(Math.max(0, globalTime));
-      const delta = Math.abs(localTime - lastPlayerTimeRef.current);
+      const position = playerRef.current?.getPlaybackPosition?.();
+      setActivePartIndex((prev) => position?.partIndex ?? prev);
+      const delta = Math.abs(globalTime - lastPlayerTimeRef.current);
       setIsVideoPlaying(delta > 0.05);
-      lastPlayerTimeRef.current = localTime;
+      lastPlayerTimeRef.current = globalTime;
     }, 500);
     return () => clearInterval(interval);
-  }, [activeVideo, activeVideoIndex]);
+  }, [activeVideo]);
 
   useEffect(() => {
-    if (!liveMode || phase !== "review" || !activeReportId || vodOffsetSeconds == null) {
+    fightsRef.current = fights;
+  }, [fights]);
+
+  useEffect(() => {
+    if (!liveMode || phase !== "review" || !activeReportIds.length || vodOffsetSeconds == null) {
       return;
     }
-    const interval = setInterval(async () => {
-      try {
-        const report = await fetchReportFights(activeReportId);
-        const rows = buildBossFightRows(report.fights ?? [], vodOffsetSeconds);
-        setFights(rows);
-        setReportMeta({
-          title: report.title,
-          owner: report.owner,
-          zone: report.zone,
-        });
-        setStatus({ kind: "success", message: `Live refresh (${rows.length} pulls).` });
-      } catch (error) {
-        setStatus({
-          kind: "error",
-          message:
-            error instanceof Error ? `Live refresh failed: ${error.message}` : "Live refresh failed.",
-        });
+    const applyReport = (report: ReportPayload, message: string) => {
+      const rows = buildBossFightRows(report.fights ?? [], vodOffsetSeconds, { includeTrash });
+      const { rows: mergedRows, added } = mergeFightRows(fightsRef.current, rows);
+      const addedPulls = added.filter((row) => !row.isTrash);
+      setFights(mergedRows);
+      if (addedPulls.length) {
+        setNewPulls((prev) => [...prev, ...addedPulls]);
       }
-    }, 45000);
-    return () => clearInterval(interval);
-  }, [liveMode, phase, activeReportId, vodOffsetSeconds]);
+      setTrackedGroups(report.trackedAbilities ?? []);
+      setReportMeta({
+        title: report.title,
+        owner: report.owner,
+        zone: report.zone,
+        warnings: report.warnings,
+      });
+      setStatus({ kind: "success", message: `${message} (${countBossPulls(rows)} pulls).` });
+    };
+
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    const startPolling = () => {
+      if (pollTimer) return;
+      pollTimer = setInterval(async () => {
+        try {
+          const report = await fetchSessionReports(activeReportIds, {
+            includeTrash,
+            trackedAbilities,
+            live: true,
+          });
+          applyReport(report, "Live refresh");
+        } catch (error) {
+          if (isRateLimitError(error)) {
+            // The next interval tick is the retry.
+            setStatus({ kind: "info", message: describeRateLimitWait(45) });
+            return;
+          }
+          setStatus({
+            kind: "error",
+            message:
+              error instanceof Error ? `Live refresh failed: ${error.message}` : "Live refresh failed.",
+          });
+        }
+      }, 45000);
+    };
+
+    // Each report streams its own snapshot and fight updates; the session view waits for every snapshot.
+    const liveReports = new Map<string, ReportPayload>();
+    const applyLiveReports = () => {
+      if (liveReports.size < activeReportIds.length) return;
+      applyReport(
+        mergeReportPayloads(activeReportIds.map((reportId) => liveReports.get(reportId) as ReportPayload)),
+        "Live update",
+      );
+    };
+    const unsubscribers: Array<() => void> = [];
+    const stopStreams = () => {
+      unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+    };
+    activeReportIds.forEach((reportId) => {
+      unsubscribers.push(
+        subscribeToLiveReport(
+          reportId,
+          { includeTrash, trackedAbilities },
+          {
+            onSnapshot: (report) => {
+              liveReports.set(reportId, { ...report, code: report.code ?? reportId });
+              applyLiveReports();
+            },
+            onFights: (update) => {
+              const current = liveReports.get(reportId);
+              if (!current) return;
+              liveReports.set(reportId, applyLiveFights(current, update));
+              applyLiveReports();
+            },
+            onProblem: (problem) => {
+              setStatus(
+                problem.retryAfterSeconds != null
+                  ? { kind: "info", message: describeRateLimitWait(problem.retryAfterSeconds) }
+                  : { kind: "error", message: `Live update failed: ${problem.error}` },
+              );
+            },
+            onUnavailable: () => {
+              stopStreams();
+              startPolling();
+            },
+          },
+        ),
+      );
+    });
+
+    return () => {
+      stopStreams();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+  }, [liveMode, phase, activeReportIds, includeTrash, trackedAbilities, vodOffsetSeconds]);
+
+  const latestNewPull = newPulls[newPulls.length - 1] ?? null;
 
   const reportSubtitle = useMemo(() => {
     if (!reportMeta) return "";
@@ -188,19 +370,31 @@ function App() {
         parts.push(reportMeta.zone.name ?? `Zone #${reportMeta.zone.id}`);
       }
     }
+    if (activeReportIds.length > 1) {
+      parts.push(`${activeReportIds.length} reports`);
+    }
     return parts.join(" • ");
-  }, [reportMeta]);
-
-  const timestampList = useMemo(() => {
-    return fights.map(
-      (fight) => `${fight.timestamp} - ${fight.bossName} - Pull #${fight.pull} - (${fight.result})`,
-    );
-  }, [fights]);
+  }, [activeReportIds, reportMeta]);
+
+  const activeEventTracks = useMemo(
+    () =>
+      (activePlayerParts ?? []).flatMap((part, index, list) => {
+        if (!part.captions) return [];
+        const label = activeVideo?.label ?? "Video";
+        return [{ label: list.length > 1 ? `${label} · part ${index + 1}` : label, content: part.captions }];
+      }),
+    [activePlayerParts, activeVideo],
+  );
+  // Chapters follow the active POV when it is a single file; multi-part POVs fall back to the timeline.
+  const chapterMapSeconds = useMemo(
+    () => (activePlayerParts?.length === 1 ? activePlayerParts[0].toLocalSeconds : undefined),
+    [activePlayerParts],
+  );
 
   const groupedFights = useMemo(() => {
     const map = new Map<string, FightRow[]>();
     fights.forEach((fight) => {
-      const key = fight.bossName || "Unknown Boss";
+      const key = fight.isTrash ? TRASH_GROUP_LABEL : fight.bossName || "Unknown Boss";
       if (!map.has(key)) {
         map.set(key, []);
       }
@@ -213,18 +407,32 @@ function App() {
   }, []);
 
   const loadReviewSession = useCallback(
-    async ({ reportId, videos, liveMode, skipAutoFill = false, manualOffsets }: LoadReviewParams) => {
-      const trimmedId = reportId.trim();
-      if (!trimmedId) {
+    async ({
+      reportIds,
+      videos,
+      liveMode,
+      includeTrash = false,
+      trackedAbilities = [],
+      skipAutoFill = false,
+      manualOffsets,
+    }: LoadReviewParams) => {
+      if (!reportIds.length) {
         setStatus({ kind: "error", message: "Report ID is required." });
         setLoading(false);
         return;
       }
-      setStatus({ kind: "info", message: "Loading report…" });
+      setStatus({
+        kind: "info",
+        message: reportIds.length > 1 ? `Loading ${reportIds.length} reports…` : "Loading report…",
+      });
       setLoading(true);
 
       try {
-        const report = await fetchReportFights(trimmedId);
+        const report = await retryWhenRateLimited(
+          () => fetchSessionReports(reportIds, { includeTrash, trackedAbilities, live: liveMode }),
+          (secondsLeft, error) =>
+            setStatus({ kind: "info", message: describeRateLimitWait(secondsLeft, error.source) }),
+        );
         let workingVideos = videos;
         if (!skipAutoFill) {
           const { videos: autoVideos, changed: autoChanged } = await autoFillYoutubeFirstPulls(
@@ -238,7 +446,10 @@ function App() {
           }
         }
 
-        let options = buildVideoOptionsFromInputs(workingVideos);
+        let options = buildVideoOptionsFromInputs(
+          workingVideos,
+          getBossPullLogSeconds(report.fights ?? []),
+        );
         if (!options.length) {
           setStatus({
             kind: "error",
@@ -256,22 +467,35 @@ function App() {
 
         const { options: normalizedOptions, base: normalizedBase } = normalizeVideoOptions(options);
         const vodBase = normalizedBase ?? normalizedOptions[0]?.firstPullSeconds ?? 0;
-        const rows = buildBossFightRows(report.fights ?? [], vodBase);
+        const rows = buildBossFightRows(report.fights ?? [], vodBase, { includeTrash });
+        const bossPullCount = countBossPulls(rows);
         setFights(rows);
+        setNewPulls([]);
         setReportMeta({
           title: report.title,
           owner: report.owner,
           zone: report.zone,
+          warnings: report.warnings,
         });
         setVideoOptions(normalizedOptions);
+        setCalibrationMarks({});
         setActiveVideoIndex(0);
         setPlayerStartSeconds(0);
         setPlayerSeekRevision((rev) => rev + 1);
-        setActorClassMap(buildActorClassMap(report.actors ?? []));
+        setActors(report.actors ?? []);
         setLiveMode(liveMode);
-        setActiveReportId(trimmedId);
+        setIncludeTrash(includeTrash);
+        setTrackedAbilities(trackedAbilities);
+        setTrackedGroups(report.trackedAbilities ?? []);
+        setActiveReportIds(reportIds);
         setVodOffsetSeconds(vodBase);
-        setStatus({ kind: "success", message: `Loaded ${rows.length} boss pulls.` });
+        setStatus({
+          kind: "success",
+          message:
+            reportIds.length > 1
+              ? `Loaded ${bossPullCount} boss pulls across ${reportIds.length} reports.`
+              : `Loaded ${bossPullCount} boss pulls.`,
+        });
         setPhase("review");
       } catch (error) {
         setStatus({
@@ -283,11 +507,15 @@ function App() {
       }
     },
     [
-      setActiveReportId,
+      setActiveReportIds,
       setActiveVideoIndex,
-      setActorClassMap,
+      setActors,
       setFights,
+      setNewPulls,
       setForm,
+      setIncludeTrash,
+      setTrackedAbilities,
+      setTrackedGroups,
       setLiveMode,
       setLoading,
       setPhase,
@@ -302,10 +530,24 @@ function App() {
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    let reportIds: string[];
+    let trackedAbilityInputs: TrackedAbilityInput[];
+    try {
+      reportIds = parseReportIdList(form.reportId);
+      trackedAbilityInputs = parseTrackedAbilityList(form.trackedAbilities);
+    } catch (error) {
+      setStatus({
+        kind: "error",
+        message: error instanceof Error ? error.message : "Report ID or URL is invalid.",
+      });
+      return;
+    }
     await loadReviewSession({
-      reportId: form.reportId,
+      reportIds,
       videos: form.videos,
       liveMode: form.liveMode,
+      includeTrash: form.includeTrash,
+      trackedAbilities: trackedAbilityInputs,
     });
   };
 
@@ -324,21 +566,39 @@ function App() {
       setStatus({ kind: "error", message: "Shared session link is invalid or incomplete." });
       return;
     }
+    const sharedReportIds =
+      Array.isArray(payload.reportIds) && payload.reportIds.length
+        ? payload.reportIds.filter((id): id is string => typeof id === "string" && id.trim().length > 0)
+        : [payload.reportId];
     const sharedVideos = payload.videos.map((video) => ({
       url: video?.url ?? "",
       firstPull: video?.firstPull ?? "00:00:00",
       label: video?.label ?? "",
+      syncPoints: "",
+      anchors: Array.isArray(video?.anchors) ? normalizeAnchors(video.anchors) : undefined,
+      parts: Array.isArray(video?.parts)
+        ? video.parts.map((part) => ({
+            url: part?.url ?? "",
+            syncPoints: "",
+            anchors: Array.isArray(part?.anchors) ? normalizeAnchors(part.anchors) : undefined,
+          }))
+        : [],
     }));
     const normalizedVideos = sharedVideos.length ? sharedVideos : [{ ...emptyVideoEntry }];
+    const sharedTrackedAbilities = Array.isArray(payload.trackedAbilities) ? payload.trackedAbilities : [];
     setForm({
-      reportId: payload.reportId,
+      reportId: sharedReportIds.join(", "),
       videos: normalizedVideos,
       liveMode: !!payload.liveMode,
+      includeTrash: !!payload.includeTrash,
+      trackedAbilities: formatTrackedAbilityList(sharedTrackedAbilities),
     });
     void loadReviewSession({
-      reportId: payload.reportId,
+      reportIds: sharedReportIds,
       videos: normalizedVideos,
       liveMode: !!payload.liveMode,
+      includeTrash: !!payload.includeTrash,
+      trackedAbilities: sharedTrackedAbilities,
       skipAutoFill: true,
       manualOffsets: payload.videos.map((video) => sanitizeManualOffset(video?.manualOffsetSeconds)),
     });
@@ -373,30 +633,78 @@ function App() {
       return;
     }
     let targetIndex = activeVideoIndex;
-    let relativeSeconds = seconds + getVideoOffsetSeconds(targetIndex);
+    const activeOption = videoOptions[targetIndex];
+    const relativeSeconds = activeOption
+      ? logToVideoSeconds(activeOption.parts[0].anchors, seconds - vodBaseSeconds) +
+        activeOption.manualOffsetSeconds
+      : seconds;
 
+    // Moments before this POV's recording begins fall back to the earliest POV.
     if (relativeSeconds < -0.25 || Number.isNaN(relativeSeconds)) {
       targetIndex = 0;
-      relativeSeconds = seconds + getVideoOffsetSeconds(targetIndex);
     }
 
-    relativeSeconds = Math.max(0, relativeSeconds);
     setCurrentVideoTime(seconds);
 
     if (targetIndex !== activeVideoIndex) {
       setActiveVideoIndex(targetIndex);
-      setPlayerStartSeconds(relativeSeconds);
+      setPlayerStartSeconds(seconds);
       setPlayerSeekRevision((rev) => rev + 1);
     } else {
-      playerRef.current?.seekTo(relativeSeconds);
+      playerRef.current?.seekTo(seconds);
+    }
+  };
+
+  // The player remounts when switching back from the defensives tool, so the jump goes in as its start.
+  const openReviewAt = useCallback((seconds: number) => {
+    setActiveTool("vod");
+    setCurrentVideoTime(seconds);
+    setPlayerStartSeconds(seconds);
+    setPlayerSeekRevision((rev) => rev + 1);
+  }, []);
+
+  const handleOpenDefensiveInReview = (target: DefensiveReviewTarget) => {
+    if (phase === "review") {
+      const fight = findReviewFight(fights, target);
+      if (fight) {
+        openReviewAt(fight.videoSeconds + target.offsetSeconds);
+        return;
+      }
+      // The open session stays as it is; the raider starts a new review for that report themselves.
+      setActiveTool("vod");
+      setStatus({
+        kind: "error",
+        message: `That pull is not in this review session. Use New report to review ${target.reportId}.`,
+      });
+      return;
     }
+    setPendingReviewJump(target);
+    setForm((prev) => ({ ...prev, reportId: target.reportId }));
+    setActiveTool("vod");
+    setPhase("landing");
+    setStatus({
+      kind: "info",
+      message: "Add the VOD for this report and start the review to open that moment.",
+    });
   };
 
+  useEffect(() => {
+    if (!pendingReviewJump || phase !== "review") {
+      return;
+    }
+    const fight = findReviewFight(fights, pendingReviewJump);
+    setPendingReviewJump(null);
+    if (fight) {
+      openReviewAt(fight.videoSeconds + pendingReviewJump.offsetSeconds);
+    } else {
+      setStatus({ kind: "error", message: "The pull picked on the defensives page is not in this session." });
+    }
+  }, [pendingReviewJump, phase, fights, openReviewAt]);
+
   const handleVideoSelect = (index: number) => {
     if (!videoOptions[index]) return;
     setActiveVideoIndex(index);
-    const relativeSeconds = Math.max(0, currentVideoTime + getVideoOffsetSeconds(index));
-    setPlayerStartSeconds(relativeSeconds);
+    setPlayerStartSeconds(currentVideoTime);
     setPlayerSeekRevision((rev) => rev + 1);
   };
 
@@ -404,13 +712,17 @@ function App() {
     setPhase("landing");
     setForm(createInitialForm());
     setFights([]);
+    setNewPulls([]);
     setReportMeta(null);
     setVideoOptions([]);
+    setCalibrationMarks({});
     setActiveVideoIndex(0);
     setPlayerStartSeconds(0);
     setPlayerSeekRevision((rev) => rev + 1);
-    setActorClassMap({});
-    setActiveReportId(null);
+    setActors([]);
+    setTrackedAbilities([]);
+    setTrackedGroups([]);
+    setActiveReportIds([]);
     setVodOffsetSeconds(null);
     setStatus({ kind: "idle", message: "" });
     setLoading(false);
@@ -462,24 +774,80 @@ function App() {
       setStatus({ kind: "error", message: "Load a video before adjusting offset." });
       return;
     }
-    const base = vodOffsetSeconds ?? 0;
+    setVideoOptions((prev) =>
+      prev.map((option, idx) =>
+        idx === activeVideoIndex ? { ...option, manualOffsetSeconds: newOffset } : option,
+      ),
+    );
+    if (phase === "review") {
+      handleJump(currentVideoTime);
+    }
+  };
+
+  const handleCalibrationMark = (fight: FightRow) => {
+    const position = playerRef.current?.getPlaybackPosition?.();
+    if (!position || fight.isTrash) {
+      setStatus({ kind: "error", message: "Pause the video on a boss pull before marking it." });
+      return;
+    }
+    const key = `${activeVideoIndex}:${position.partIndex}`;
+    const mark: CalibrationMark = {
+      pull: fight.pull,
+      logSeconds: fight.videoSeconds - vodBaseSeconds,
+      videoSeconds: position.localSeconds,
+    };
+    setActivePartIndex(position.partIndex);
+    setCalibrationMarks((prev) => ({
+      ...prev,
+      [key]: [...(prev[key] ?? []).filter((entry) => entry.pull !== fight.pull), mark].sort(
+        (a, b) => a.pull - b.pull,
+      ),
+    }));
+  };
+
+  const handleCalibrationRemove = (pull: number) => {
+    setCalibrationMarks((prev) => ({
+      ...prev,
+      [calibrationKey]: (prev[calibrationKey] ?? []).filter((entry) => entry.pull !== pull),
+    }));
+  };
+
+  const handleCalibrationClear = () => {
+    setCalibrationMarks((prev) => ({ ...prev, [calibrationKey]: [] }));
+  };
+
+  const handleCalibrationApply = (mode: "offset" | "marks") => {
+    const part = activeVideo?.parts[activePartIndex];
+    if (!activeVideo || !part || !activeCalibrationResult) {
+      return;
+    }
+    // Marks are raw file positions; live anchors exclude the manual offset, form values include it.
+    const rawAnchors = normalizeAnchors(
+      calibrationToAnchors(activeCalibrationResult, activeCalibrationMarks, mode),
+    );
+    const liveAnchors = shiftAnchors(rawAnchors, -activeVideo.manualOffsetSeconds);
     setVideoOptions((prev) =>
       prev.map((option, idx) => {
         if (idx !== activeVideoIndex) {
           return option;
         }
-        const manual = newOffset;
-        const offsetSeconds = option.firstPullSeconds + manual - base;
-        return {
-          ...option,
-          manualOffsetSeconds: manual,
-          offsetSeconds,
-        };
+        const parts = option.parts.map((entry, pIdx) =>
+          pIdx === activePartIndex ? { ...entry, anchors: liveAnchors } : entry,
+        );
+        return { ...option, parts, firstPullSeconds: logToVideoSeconds(parts[0].anchors, 0) };
       }),
     );
-    if (phase === "review") {
-      handleJump(currentVideoTime);
-    }
+    setForm((prev) => ({
+      ...prev,
+      videos: prev.videos.map((entry, idx) =>
+        idx === activeVideo.formIndex ? applyCalibrationToFormEntry(entry, part.url, rawAnchors) : entry,
+      ),
+    }));
+    setCalibrationMarks((prev) => ({ ...prev, [calibrationKey]: [] }));
+    setStatus({
+      kind: "success",
+      message: `Applied calibration to ${activeVideo.label} (max residual ${activeCalibrationResult.maxAbsResidualSeconds.toFixed(1)}s).`,
+    });
   };
 
   const statusClass =
@@ -535,10 +903,33 @@ function App() {
                 <>
                   <div className="flex flex-col gap-0.5 text-right">
                     {reportSubtitle && <span className="text-sm text-slate-200">{reportSubtitle}</span>}
-                    {status.kind === "success" && status.message ? (
-                      <span className="text-xs text-emerald-400">{status.message}</span>
+                    {(status.kind === "success" || status.kind === "info") && status.message ? (
+                      <span className={`text-xs ${status.kind === "info" ? "text-slate-300" : "text-emerald-400"}`}>
+                        {status.message}
+                      </span>
+                    ) : null}
+                    {reportMeta?.warnings?.length ? (
+                      <span className="text-xs text-amber-300" title={reportMeta.warnings.join("\n")}>
+                        Partial event data: some later pulls may be missing deaths or tracked casts.
+                      </span>
                     ) : null}
                   </div>
+                  {latestNewPull && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        handleJump(latestNewPull.videoSeconds);
+                        setNewPulls([]);
+                      }}
+                      title="Jump to the latest pull and dismiss"
+                      className="flex items-center gap-2 rounded-full border border-emerald-400/60 bg-emerald-500/10 px-4 py-2 text-sm font-semibold text-emerald-200 transition hover:bg-emerald-500/20"
+                    >
+                      <span className="h-2 w-2 animate-pulse rounded-full bg-emerald-400"></span>
+                      {newPulls.length === 1
+                        ? `New pull: ${latestNewPull.bossName} #${latestNewPull.pull}`
+                        : `${newPulls.length} new pulls`}
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={handleCopyShareLink}
@@ -546,28 +937,15 @@ function App() {
                   >
                     Copy share link
                   </button>
-                  {!!timestampList.length && (
+                  {fights.length > 0 && (
                     <button
                       type="button"
-                      onClick={() => {
-                        navigator.clipboard
-                          .writeText(timestampList.join("\n"))
-                          .then(() =>
-                            setStatus({
-                              kind: "success",
-                              message: "Copied timestamps to clipboard.",
-                            }),
-                          )
-                          .catch(() =>
-                            setStatus({
-                              kind: "error",
-                              message: "Clipboard copy failed. Select manually instead.",
-                            }),
-                          );
-                      }}
-                      className="rounded-full border border-slate-700 px-5 py-2 text-sm font-semibold text-slate-200 transition hover:bg-slate-900"
+                      onClick={() => setIsChapterExportOpen((prev) => !prev)}
+                      className={`rounded-full border px-5 py-2 text-sm font-semibold transition hover:bg-slate-900 ${
+                        isChapterExportOpen ? "border-amber-300 text-amber-100" : "border-slate-700 text-slate-200"
+                      }`}
                     >
-                      Copy timestamps
+                      Export chapters
                     </button>
                   )}
                   <button
@@ -604,33 +982,55 @@ function App() {
               statusMessage={status.message}
             />
           ) : (
-            <ReviewWorkspace
-              playerRef={playerRef}
-              videoSource={activeVideo?.source ?? null}
-              fights={fights}
-              groupedFights={groupedFights}
-              reportSubtitle={reportSubtitle}
-              timestampList={timestampList}
-              onJump={handleJump}
-              currentVideoTime={currentVideoTime}
-              setStatus={setStatus}
-              statusClass={statusClass}
-              statusMessage={status.message}
-              hasVideo={hasVideo}
-              videoOptions={videoOptions}
-              activeVideoIndex={activeVideoIndex}
-              onVideoSelect={handleVideoSelect}
-              playerStartSeconds={playerStartSeconds}
-              playerSeekRevision={playerSeekRevision}
-              actorClassMap={actorClassMap}
-              manualOffsetSeconds={manualOffsetSeconds}
-              onManualOffsetChange={handleManualOffsetChange}
-              isVideoPlaying={isVideoPlaying}
-              onPlaybackToggle={handlePlaybackToggle}
-            />
+            <>
+              {isChapterExportOpen && (
+                <ChapterExportPanel
+                  fights={fights}
+                  videoLabel={chapterMapSeconds ? activeVideo?.label ?? null : null}
+                  mapSeconds={chapterMapSeconds}
+                  fileName={`vodsync-${activeReportIds.join("-") || "chapters"}`}
+                  eventTracks={activeEventTracks}
+                  onStatus={setStatus}
+                />
+              )}
+              <ReviewWorkspace
+                playerRef={playerRef}
+                videoParts={activePlayerParts}
+                fights={fights}
+                groupedFights={groupedFights}
+                reportSubtitle={reportSubtitle}
+                onJump={handleJump}
+                currentVideoTime={currentVideoTime}
+                setStatus={setStatus}
+                statusClass={statusClass}
+                statusMessage={status.message}
+                hasVideo={hasVideo}
+                videoOptions={videoOptions}
+                activeVideoIndex={activeVideoIndex}
+                onVideoSelect={handleVideoSelect}
+                playerStartSeconds={playerStartSeconds}
+                playerSeekRevision={playerSeekRevision}
+                actorClassMap={actorClassMap}
+                actors={actors}
+                trackedGroups={trackedGroups}
+                manualOffsetSeconds={manualOffsetSeconds}
+                onManualOffsetChange={handleManualOffsetChange}
+                isVideoPlaying={isVideoPlaying}
+                onPlaybackToggle={handlePlaybackToggle}
+                calibration={{
+                  partIndex: activePartIndex,
+                  marks: activeCalibrationMarks,
+                  result: activeCalibrationResult,
+                  onMark: handleCalibrationMark,
+                  onRemoveMark: handleCalibrationRemove,
+                  onClear: handleCalibrationClear,
+                  onApply: handleCalibrationApply,
+                }}
+              />
+            </>
           )
         ) : (
-          <DefensiveUsagePage />
+          <DefensiveUsagePage onOpenInReview={handleOpenDefensiveInReview} />
         )}
       </main>
     </div>
@@ -656,10 +1056,21 @@ function LandingHero({
   statusClass,
   statusMessage,
 }: LandingHeroProps) {
-  const updateVideoEntry = (index: number, field: keyof VideoFormEntry, value: string) => {
+  const updateVideoEntry = (
+    index: number,
+    field: Exclude<keyof VideoFormEntry, "anchors">,
+    value: string,
+  ) => {
     setForm((prev) => {
+      // Editing the sync inputs drops anchors restored from a shared link so the new values apply.
       const nextVideos = prev.videos.map((video, idx) =>
-        idx === index ? { ...video, [field]: value } : video,
+        idx === index
+          ? {
+              ...video,
+              [field]: value,
+              anchors: field === "label" ? video.anchors : undefined,
+            }
+          : video,
       );
       return { ...prev, videos: nextVideos };
     });
@@ -672,6 +1083,45 @@ function LandingHero({
     }));
   };
 
+  const updateVideoPart = (
+    index: number,
+    partIndex: number,
+    field: Exclude<keyof VideoPartFormEntry, "anchors">,
+    value: string,
+  ) => {
+    setForm((prev) => ({
+      ...prev,
+      videos: prev.videos.map((video, idx) =>
+        idx === index
+          ? {
+              ...video,
+              parts: video.parts.map((part, pIdx) =>
+                pIdx === partIndex ? { ...part, [field]: value, anchors: undefined } : part,
+              ),
+            }
+          : video,
+      ),
+    }));
+  };
+
+  const addVideoPart = (index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      videos: prev.videos.map((video, idx) =>
+        idx === index ? { ...video, parts: [...video.parts, { ...emptyVideoPartEntry }] } : video,
+      ),
+    }));
+  };
+
+  const removeVideoPart = (index: number, partIndex: number) => {
+    setForm((prev) => ({
+      ...prev,
+      videos: prev.videos.map((video, idx) =>
+        idx === index ? { ...video, parts: video.parts.filter((_, pIdx) => pIdx !== partIndex) } : video,
+      ),
+    }));
+  };
+
   const removeVideoEntry = (index: number) => {
     setForm((prev) => {
       const nextVideos = prev.videos.filter((_, idx) => idx !== index);
@@ -683,9 +1133,11 @@ function LandingHero({
     <section className="flex justify-center">
       <div className="w-full max-w-xl rounded-3xl border border-white/5 bg-slate-950/80 p-8 shadow-2xl shadow-black/50">
         <h2 className="text-xl font-semibold">Load your report</h2>
+        <AccessGate />
+        <AccountStatus />
         <form className="mt-6 space-y-4" onSubmit={onSubmit}>
           <label className="block text-sm">
-            <span className="text-slate-300">Report ID</span>
+            <span className="text-slate-300">Report ID(s)</span>
             <input
               type="text"
               required
@@ -696,6 +1148,9 @@ function LandingHero({
               className="mt-1 w-full rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-2 text-base outline-none ring-offset-slate-950 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500"
               placeholder="abc123XYZ"
             />
+            <span className="mt-1 block text-xs text-slate-500">
+              Split night? Paste every report code in order, separated by commas.
+            </span>
           </label>
           <div className="space-y-3 rounded-2xl border border-white/5 bg-slate-950/60 p-4">
             <div className="flex items-center justify-between">
@@ -733,6 +1188,69 @@ function LandingHero({
                     placeholder="Main POV, Healer, etc."
                   />
                 </label>
+                <label className="mt-3 block text-xs uppercase tracking-wide text-slate-400">
+                  Extra sync points (optional)
+                  <textarea
+                    value={video.syncPoints}
+                    onChange={(event) => updateVideoEntry(index, "syncPoints", event.target.value)}
+                    rows={2}
+                    className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/30 px-3 py-2 font-mono text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500"
+                    placeholder={"#1 00:08:51\n#14 02:31:07"}
+                  />
+                  <span className="mt-1 block normal-case tracking-normal text-slate-500">
+                    {video.anchors?.length
+                      ? `${video.anchors.length} sync points saved from calibration or a shared link.`
+                      : "One pull per line: the pull number and where it starts in this video. Add one after every stream cut or break."}
+                  </span>
+                </label>
+                {video.parts.map((part, partIndex) => (
+                  <div
+                    key={`video-${index}-part-${partIndex}`}
+                    className="mt-3 rounded-lg border border-slate-800/60 bg-slate-950/40 p-3"
+                  >
+                    <label className="block text-xs uppercase tracking-wide text-slate-400">
+                      Part {partIndex + 2} URL
+                      <input
+                        type="url"
+                        value={part.url}
+                        onChange={(event) => updateVideoPart(index, partIndex, "url", event.target.value)}
+                        className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/30 px-3 py-2 text-base text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500"
+                        placeholder="https://youtu.be/..."
+                      />
+                    </label>
+                    <label className="mt-3 block text-xs uppercase tracking-wide text-slate-400">
+                      Part {partIndex + 2} sync points
+                      <textarea
+                        value={part.syncPoints}
+                        onChange={(event) =>
+                          updateVideoPart(index, partIndex, "syncPoints", event.target.value)
+                        }
+                        rows={2}
+                        className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/30 px-3 py-2 font-mono text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-500"
+                        placeholder="#9 00:04:12"
+                      />
+                      <span className="mt-1 block normal-case tracking-normal text-slate-500">
+                        {part.anchors?.length
+                          ? `${part.anchors.length} sync points saved.`
+                          : "At least one pull that appears in this file. YouTube live VODs are synced automatically when left empty."}
+                      </span>
+                    </label>
+                    <button
+                      type="button"
+                      className="mt-2 text-xs font-semibold text-rose-300 transition hover:text-rose-200"
+                      onClick={() => removeVideoPart(index, partIndex)}
+                    >
+                      Remove part
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="mt-3 block text-xs font-semibold text-indigo-300 transition hover:text-indigo-200"
+                  onClick={() => addVideoPart(index)}
+                >
+                  + Add part (stream restarted)
+                </button>
                 {index > 0 && (
                   <button
                     type="button"
@@ -760,6 +1278,32 @@ function LandingHero({
             />
             Live logging mode (auto-refresh)
           </label>
+          <label className="flex items-center gap-3 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={form.includeTrash}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, includeTrash: event.target.checked }))
+              }
+              className="h-4 w-4 rounded border-slate-700 bg-slate-900 text-indigo-500"
+            />
+            Include trash &amp; downtime segments
+          </label>
+          <label className="block text-sm font-medium text-slate-200">
+            Tracked abilities
+            <textarea
+              value={form.trackedAbilities}
+              onChange={(event) => setForm((prev) => ({ ...prev, trackedAbilities: event.target.value }))}
+              rows={3}
+              placeholder={"Boss casts (enemy): 436358, 437417 #f97316\n-Battle res"}
+              className="mt-2 w-full rounded-2xl border border-slate-700 bg-slate-900/80 px-4 py-3 font-mono text-sm text-slate-100 outline-none focus:border-indigo-400 focus:ring-1 focus:ring-indigo-400"
+            />
+            <span className="mt-1 block text-xs text-slate-500">
+              Optional. Bloodlust, raid cooldowns and battle res are tracked by default. Add lanes as
+              <code className="mx-1">Label: spellId, spellId #color</code>, tag boss casts with
+              <code className="mx-1">(enemy)</code> and hide a lane with <code className="mx-1">-Label</code>.
+            </span>
+          </label>
           <button
             type="submit"
             disabled={loading}
@@ -776,11 +1320,10 @@ function LandingHero({
 
 interface ReviewWorkspaceProps {
   playerRef: React.RefObject<VideoPlayerHandle>;
-  videoSource: VideoSource | null;
+  videoParts: VideoPlayerPart[] | null;
   fights: FightRow[];
   groupedFights: Array<[string, FightRow[]]>;
   reportSubtitle: string;
-  timestampList: string[];
   onJump: (seconds: number) => void;
   currentVideoTime: number;
   setStatus: React.Dispatch<React.SetStateAction<StatusState>>;
@@ -793,19 +1336,31 @@ interface ReviewWorkspaceProps {
   playerStartSeconds: number;
   playerSeekRevision: number;
   actorClassMap: Record<string, string>;
+  actors: ActorInfo[];
+  trackedGroups: TrackedAbilityGroup[];
   manualOffsetSeconds: number;
   onManualOffsetChange: (offset: number) => void;
   isVideoPlaying: boolean;
   onPlaybackToggle: () => void;
+  calibration: CalibrationControls;
+}
+
+interface CalibrationControls {
+  partIndex: number;
+  marks: CalibrationMark[];
+  result: CalibrationResult | null;
+  onMark: (fight: FightRow) => void;
+  onRemoveMark: (pull: number) => void;
+  onClear: () => void;
+  onApply: (mode: "offset" | "marks") => void;
 }
 
 function ReviewWorkspace({
   playerRef,
-  videoSource,
+  videoParts,
   fights,
   groupedFights,
   reportSubtitle,
-  timestampList,
   onJump,
   currentVideoTime,
   setStatus,
@@ -818,12 +1373,23 @@ function ReviewWorkspace({
   playerStartSeconds,
   playerSeekRevision,
   actorClassMap,
+  actors,
+  trackedGroups,
   manualOffsetSeconds,
   onManualOffsetChange,
   isVideoPlaying,
   onPlaybackToggle,
+  calibration,
 }: ReviewWorkspaceProps) {
   const [selectedFight, setSelectedFight] = useState<FightRow | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [bossInsight, setBossInsight] = useState<{ bossName: string; view: "deaths" | "progress" } | null>(
+    null,
+  );
+  const toggleBossInsight = (bossName: string, view: "deaths" | "progress") => {
+    setBossInsight((prev) => (prev?.bossName === bossName && prev.view === view ? null : { bossName, view }));
+  };
+  const [hiddenLanes, setHiddenLanes] = useState<string[]>([]);
   const [isScrubbing, setIsScrubbing] = useState(false);
   const [scrubVideoSeconds, setScrubVideoSeconds] = useState<number | null>(null);
   const timelineRef = useRef<HTMLDivElement | null>(null);
@@ -880,12 +1446,19 @@ function ReviewWorkspace({
   }, [selectedFight]);
 
   const phaseMarkers = useMemo(() => selectedFight?.phaseMarkers ?? [], [selectedFight]);
-  const bloodlustMarkers = useMemo(() => {
-    if (!selectedFight || !Array.isArray(selectedFight.bloodlusts)) {
-      return [];
-    }
-    return selectedFight.bloodlusts.length ? [selectedFight.bloodlusts[0]] : [];
-  }, [selectedFight]);
+  const trackedLanes = useMemo(
+    () =>
+      trackedGroups
+        .filter((group) => !hiddenLanes.includes(group.id))
+        .map((group) => ({
+          group,
+          markers: (selectedFight?.trackedMarkers ?? []).filter((marker) => marker.group === group.id),
+        })),
+    [trackedGroups, hiddenLanes, selectedFight],
+  );
+  const toggleLane = (groupId: string) => {
+    setHiddenLanes((prev) => (prev.includes(groupId) ? prev.filter((id) => id !== groupId) : [...prev, groupId]));
+  };
 
   const getVideoSecondsFromPointer = (event: React.PointerEvent<HTMLDivElement>) => {
     if (!timelineRef.current || !selectedFight) {
@@ -965,7 +1538,7 @@ function ReviewWorkspace({
         <div className="border border-white/5 bg-slate-950/80 p-4 shadow-2xl shadow-black/40">
           <VideoPlayer
             ref={playerRef}
-            source={videoSource}
+            parts={videoParts}
             startSeconds={playerStartSeconds}
             seekRevision={playerSeekRevision}
             className="w-full"
@@ -998,7 +1571,9 @@ function ReviewWorkspace({
                           selectedFight.durationSeconds > 0
                             ? (segDuration / selectedFight.durationSeconds) * 100
                             : 0;
-                        const baseClass = segment.isIntermission ? "bg-slate-700/70" : "bg-slate-800/70";
+                        const baseClass = segment.isIntermission || selectedFight.isTrash
+                          ? "bg-slate-700/70"
+                          : "bg-slate-800/70";
                         const label = segment.label || `P${idx + 1}`;
                         return (
                           <div
@@ -1027,7 +1602,11 @@ function ReviewWorkspace({
                         if (filledWidth <= 0) {
                           return null;
                         }
-                        const cls = segment.isIntermission ? "bg-fuchsia-500/70" : "bg-sky-500/70";
+                        const cls = selectedFight.isTrash
+                          ? "bg-slate-500/60"
+                          : segment.isIntermission
+                            ? "bg-fuchsia-500/70"
+                            : "bg-sky-500/70";
                         const label = segment.label || `P${idx + 1}`;
                         return (
                           <div
@@ -1068,7 +1647,11 @@ function ReviewWorkspace({
                           ? (segment.startSeconds / selectedFight.durationSeconds) * 100
                           : 0;
                       const label = segment.label || `P${idx + 1}`;
-                      const textClass = segment.isIntermission ? "bg-fuchsia-800/80" : "bg-sky-800/80";
+                      const textClass = selectedFight.isTrash
+                        ? "bg-slate-700/80"
+                        : segment.isIntermission
+                          ? "bg-fuchsia-800/80"
+                          : "bg-sky-800/80";
                       return (
                         <div
                           key={`label-${label}-${idx}`}
@@ -1094,40 +1677,6 @@ function ReviewWorkspace({
                       }}
                     ></span>
                   </div>
-                  <div
-                    className="pointer-events-none absolute inset-x-0 z-40"
-                    style={{ bottom: "100%", height: "3rem" }}
-                  >
-                    {bloodlustMarkers.map((marker, idx) => (
-                      <div
-                        key={`${selectedFight.pull}-lust-inline-${idx}-${marker.offsetSeconds}`}
-                        className="absolute bottom-0 flex h-full -translate-x-1/2 flex-col items-center justify-end"
-                        style={{
-                          left:
-                            selectedFight.durationSeconds > 0
-                              ? `${(marker.offsetSeconds / selectedFight.durationSeconds) * 100}%`
-                              : "0%",
-                        }}
-                      >
-                        <div className="group pointer-events-auto text-[0.55rem] text-white">
-                          <div className="relative flex h-7 w-7 items-center justify-center rounded-full border border-sky-300 bg-slate-900/90 shadow shadow-sky-500/40">
-                            <img
-                              src="https://wow.zamimg.com/images/wow/icons/large/spell_nature_bloodlust.jpg"
-                              alt="Bloodlust"
-                              className="h-6 w-6 rounded-full"
-                              loading="lazy"
-                            />
-                            <div className="pointer-events-none absolute -top-12 left-1/2 -translate-x-1/2 whitespace-nowrap rounded border border-slate-800 bg-slate-900/95 px-2 py-1 text-[0.55rem] font-semibold text-slate-100 opacity-0 shadow-lg shadow-black/40 transition group-hover:opacity-100">
-                              <p className="font-semibold text-sky-200">{marker.ability}</p>
-                              <p className="text-slate-300">{marker.caster}</p>
-                              <p className="text-slate-400">{marker.offsetText}</p>
-                            </div>
-                          </div>
-                        </div>
-                        <span className="mt-1 h-3 w-0.5 bg-white/80"></span>
-                      </div>
-                    ))}
-                  </div>
                   <div
                     className="pointer-events-none absolute inset-x-0 z-30"
                     style={{ bottom: "100%", height: "3rem" }}
@@ -1175,6 +1724,76 @@ function ReviewWorkspace({
                   </div>
                 </div>
               </div>
+              {trackedGroups.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  <div className="flex flex-wrap gap-2 text-[0.65rem] uppercase tracking-wide">
+                    {trackedGroups.map((group) => {
+                      const isHidden = hiddenLanes.includes(group.id);
+                      return (
+                        <button
+                          key={`lane-toggle-${group.id}`}
+                          type="button"
+                          onClick={() => toggleLane(group.id)}
+                          className={`flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 font-semibold transition ${
+                            isHidden
+                              ? "border-slate-800 text-slate-500 hover:border-slate-600"
+                              : "border-slate-600 text-slate-200 hover:border-slate-400"
+                          }`}
+                        >
+                          <span
+                            className="h-2 w-2 rounded-full border"
+                            style={{ borderColor: group.color, backgroundColor: isHidden ? "transparent" : group.color }}
+                          ></span>
+                          {group.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {trackedLanes.map(({ group, markers }) => (
+                    <div key={`lane-${group.id}`} className="flex items-center gap-3">
+                      <span className="w-28 truncate text-[0.65rem] uppercase tracking-wide text-slate-400">
+                        {group.label}
+                      </span>
+                      <div className="relative h-7 flex-1 rounded bg-slate-900/60">
+                        {markers.map((marker, idx) => (
+                          <button
+                            key={`${group.id}-${idx}-${marker.offsetSeconds}`}
+                            type="button"
+                            disabled={!hasVideo}
+                            onClick={() => onJump(selectedFight.videoSeconds + marker.offsetSeconds)}
+                            className="group absolute top-1/2 -translate-x-1/2 -translate-y-1/2 disabled:cursor-not-allowed"
+                            style={{
+                              left:
+                                selectedFight.durationSeconds > 0
+                                  ? `${(marker.offsetSeconds / selectedFight.durationSeconds) * 100}%`
+                                  : "0%",
+                            }}
+                          >
+                            {marker.abilityIcon ? (
+                              <img
+                                src={marker.abilityIcon}
+                                alt={marker.ability}
+                                className="h-6 w-6 rounded-full border-2 bg-slate-900"
+                                style={{ borderColor: group.color }}
+                                loading="lazy"
+                              />
+                            ) : (
+                              <span className="block h-3 w-3 rounded-full" style={{ backgroundColor: group.color }}></span>
+                            )}
+                            <span className="pointer-events-none absolute -top-12 left-1/2 z-40 -translate-x-1/2 whitespace-nowrap rounded border border-slate-800 bg-slate-900/95 px-2 py-1 text-left text-[0.55rem] font-semibold text-slate-100 opacity-0 shadow-lg shadow-black/40 transition group-hover:opacity-100">
+                              <span className="block" style={{ color: group.color }}>
+                                {marker.ability}
+                              </span>
+                              <span className="block text-slate-300">{marker.caster}</span>
+                              <span className="block text-slate-400">{marker.offsetText}</span>
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="mt-3 flex items-center gap-4 text-sm text-slate-200">
                 <button
                   type="button"
@@ -1191,7 +1810,19 @@ function ReviewWorkspace({
                 <span className="font-mono text-xs text-slate-400">
                   {formatDuration(relativeCurrentSeconds)} / {formatDuration(selectedFightDuration)}
                 </span>
-                <label className="ml-auto flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+                <button
+                  type="button"
+                  onClick={() => setIsCalibrating((prev) => !prev)}
+                  disabled={!hasVideo}
+                  className={`ml-auto rounded-full border px-4 py-1 text-xs font-semibold uppercase tracking-wide transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                    isCalibrating
+                      ? "border-amber-300 text-amber-100"
+                      : "border-slate-600 hover:border-amber-300 hover:text-amber-100"
+                  }`}
+                >
+                  Calibrate
+                </button>
+                <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
                   Video offset (s)
                   <input
                     type="number"
@@ -1201,6 +1832,22 @@ function ReviewWorkspace({
                   />
                 </label>
               </div>
+              {isCalibrating && videoOptions[activeVideoIndex] && (
+                <CalibrationPanel
+                  videoLabel={videoOptions[activeVideoIndex].label}
+                  partIndex={calibration.partIndex}
+                  partCount={videoOptions[activeVideoIndex].parts.length}
+                  selectedPull={selectedFight && !selectedFight.isTrash ? selectedFight.pull : null}
+                  marks={calibration.marks}
+                  result={calibration.result}
+                  onMark={() => {
+                    if (selectedFight) calibration.onMark(selectedFight);
+                  }}
+                  onRemoveMark={calibration.onRemoveMark}
+                  onClear={calibration.onClear}
+                  onApply={calibration.onApply}
+                />
+              )}
             </div>
           )}
           <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-slate-300">
@@ -1248,10 +1895,78 @@ function ReviewWorkspace({
                   <p className="text-sm font-semibold uppercase tracking-[0.2em] text-slate-400">
                     {bossName}
                   </p>
-                  <span className="text-xs text-slate-500">{pulls.length} pulls</span>
+                  <div className="flex items-center gap-3">
+                    {bossName !== TRASH_GROUP_LABEL && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => toggleBossInsight(bossName, "progress")}
+                          className={`text-[0.65rem] font-semibold uppercase tracking-[0.2em] transition ${
+                            bossInsight?.bossName === bossName && bossInsight.view === "progress"
+                              ? "text-amber-200"
+                              : "text-slate-500 hover:text-amber-100"
+                          }`}
+                        >
+                          Progress
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => toggleBossInsight(bossName, "deaths")}
+                          className={`text-[0.65rem] font-semibold uppercase tracking-[0.2em] transition ${
+                            bossInsight?.bossName === bossName && bossInsight.view === "deaths"
+                              ? "text-rose-300"
+                              : "text-slate-500 hover:text-rose-200"
+                          }`}
+                        >
+                          Deaths
+                        </button>
+                      </>
+                    )}
+                    <span className="text-xs text-slate-500">
+                      {pulls.length} {bossName === TRASH_GROUP_LABEL ? "segments" : "pulls"}
+                    </span>
+                  </div>
                 </div>
                 <div className="grid gap-1 sm:grid-cols-5 xl:grid-cols-6">
                   {pulls.map((fight, index) => {
+                    if (fight.isTrash) {
+                      const isActiveTrash =
+                        currentVideoTime >= fight.videoSeconds &&
+                        currentVideoTime < fight.videoSeconds + fight.durationSeconds;
+                      const isSelectedTrash = selectedFight?.isTrash && selectedFight.pull === fight.pull;
+                      return (
+                        <button
+                          key={`trash-${fight.pull}`}
+                          type="button"
+                          disabled={!hasVideo}
+                          onClick={() => {
+                            setSelectedFight(fight);
+                            onJump(fight.videoSeconds);
+                          }}
+                          title={fight.bossName}
+                          className={`relative flex aspect-square flex-col justify-center gap-1 border bg-slate-950/40 p-2 text-center text-xs text-slate-400 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50 ${
+                            isActiveTrash
+                              ? "border-slate-400"
+                              : isSelectedTrash
+                                ? "border-slate-500"
+                                : "border-slate-900"
+                          }`}
+                        >
+                          <span className="absolute right-2 top-1 text-[0.65rem] font-bold text-slate-600">
+                            T{fight.pull}
+                          </span>
+                          <p className="truncate font-semibold uppercase tracking-[0.05em] text-slate-400">
+                            {fight.bossName}
+                          </p>
+                          <p className="text-[0.8rem] text-slate-300">{fight.durationText}</p>
+                          {fight.deaths.length > 0 && (
+                            <p className="text-[0.7rem] text-rose-300/80">
+                              {fight.deaths.length} death{fight.deaths.length === 1 ? "" : "s"}
+                            </p>
+                          )}
+                        </button>
+                      );
+                    }
                     const latestPhase = fight.phases?.[fight.phases.length - 1];
                     const phaseLabel = latestPhase?.label ?? null;
                     const phasePercent =
@@ -1269,7 +1984,9 @@ function ReviewWorkspace({
                       currentVideoTime >= fight.videoSeconds &&
                       currentVideoTime < fightEndSeconds;
                     const isSelected =
-                      selectedFight?.bossName === fight.bossName && selectedFight?.pull === fight.pull;
+                      !selectedFight?.isTrash &&
+                      selectedFight?.bossName === fight.bossName &&
+                      selectedFight?.pull === fight.pull;
                     const borderClass = isActive
                       ? "border-emerald-400 shadow-emerald-500/40"
                       : isSelected
@@ -1317,6 +2034,19 @@ function ReviewWorkspace({
                     );
                   })}
                 </div>
+                {bossInsight?.bossName === bossName && bossInsight.view === "progress" && (
+                  <ProgressionChart bossName={bossName} fights={fights} hasVideo={hasVideo} onJump={onJump} />
+                )}
+                {bossInsight?.bossName === bossName && bossInsight.view === "deaths" && (
+                  <DeathAnalyticsPanel
+                    bossName={bossName}
+                    fights={pulls}
+                    actors={actors}
+                    actorClassMap={actorClassMap}
+                    hasVideo={hasVideo}
+                    onJump={onJump}
+                  />
+                )}
               </div>
             ))
           )}
@@ -1326,6 +2056,21 @@ function ReviewWorkspace({
   );
 }
 
+function findReviewFight(fights: FightRow[], target: DefensiveReviewTarget): FightRow | null {
+  return (
+    fights.find(
+      (fight) =>
+        !fight.isTrash &&
+        fight.fightId === target.fightId &&
+        (fight.reportCode == null || fight.reportCode === target.reportId),
+    ) ?? null
+  );
+}
+
+function countBossPulls(rows: FightRow[]): number {
+  return rows.filter((row) => !row.isTrash).length;
+}
+
 function clamp(value: number, min: number, max: number): number {
   if (Number.isNaN(value)) return min;
   return Math.min(max, Math.max(min, value));
@@ -1367,46 +2112,90 @@ async function autoFillYoutubeFirstPulls(
   }
   const updated = await Promise.all(
     videos.map(async (video) => {
+      const parts = await autoFillYoutubePartAnchors(video.parts, firstPullAbsoluteSeconds);
+      const withParts = parts === video.parts ? video : { ...video, parts };
       const shouldAuto = !video.firstPull || video.firstPull.trim() === "" || video.firstPull.trim() === "00:00:00";
       if (!shouldAuto) {
-        return video;
+        return withParts;
       }
       const source = detectVideoSource(video.url);
       if (!source || source.kind !== "youtube") {
-        return video;
+        return withParts;
       }
       try {
         const metadata = await fetchYoutubeLiveStart(source.videoId);
         const startEpochSeconds = metadata?.startEpochSeconds;
         if (!startEpochSeconds || !Number.isFinite(startEpochSeconds)) {
-          return video;
+          return withParts;
         }
         const offsetSeconds = firstPullAbsoluteSeconds - startEpochSeconds;
         if (!Number.isFinite(offsetSeconds) || offsetSeconds < 0) {
-          return video;
+          return withParts;
         }
         const formatted = formatHhmmss(offsetSeconds);
         if (formatted === video.firstPull) {
-          return video;
+          return withParts;
         }
-        return { ...video, firstPull: formatted };
+        return { ...withParts, firstPull: formatted };
       } catch (error) {
         console.warn("[logtime] YouTube auto-fill failed", error);
-        return video;
+        return withParts;
       }
     }),
   );
-  const changed = updated.some((video, index) => video.firstPull !== videos[index].firstPull);
+  const changed = updated.some((video, index) => video !== videos[index]);
   return { videos: updated, changed };
 }
 
-function buildVideoOptionsFromInputs(entries: VideoFormEntry[]): VideoOption[] {
+// Continuation VODs usually start after the first pull, so their anchor may sit before the file starts.
+async function autoFillYoutubePartAnchors(
+  parts: VideoPartFormEntry[],
+  firstPullAbsoluteSeconds: number,
+): Promise<VideoPartFormEntry[]> {
+  if (!parts.length) {
+    return parts;
+  }
+  const updated = await Promise.all(
+    parts.map(async (part) => {
+      if (part.anchors?.length || part.syncPoints.trim()) {
+        return part;
+      }
+      const source = detectVideoSource(part.url);
+      if (!source || source.kind !== "youtube") {
+        return part;
+      }
+      try {
+        const metadata = await fetchYoutubeLiveStart(source.videoId);
+        const startEpochSeconds = metadata?.startEpochSeconds;
+        if (!startEpochSeconds || !Number.isFinite(startEpochSeconds)) {
+          return part;
+        }
+        return {
+          ...part,
+          anchors: [{ logSeconds: 0, videoSeconds: firstPullAbsoluteSeconds - startEpochSeconds }],
+        };
+      } catch (error) {
+        console.warn("[logtime] YouTube part auto-fill failed", error);
+        return part;
+      }
+    }),
+  );
+  return updated.some((part, index) => part !== parts[index]) ? updated : parts;
+}
+
+function buildVideoOptionsFromInputs(
+  entries: VideoFormEntry[],
+  pullLogSeconds: number[],
+): VideoOption[] {
   const trimmed = entries
     .map((entry, index) => ({
       index,
       url: entry.url.trim(),
       firstPull: (entry.firstPull || "00:00:00").trim() || "00:00:00",
       label: (entry.label || "").trim(),
+      syncPoints: entry.syncPoints ?? "",
+      anchors: entry.anchors,
+      parts: entry.parts ?? [],
     }))
     .filter((entry) => entry.url.length > 0);
   if (!trimmed.length) {
@@ -1429,22 +2218,43 @@ function buildVideoOptionsFromInputs(entries: VideoFormEntry[]): VideoOption[] {
         `Video #${entry.index + 1}: Unsupported URL. Use YouTube or a direct .mp4/.webm link.`,
       );
     }
+    let anchors: SyncAnchor[];
+    if (entry.anchors?.length) {
+      anchors = normalizeAnchors(entry.anchors);
+    } else {
+      try {
+        const extraAnchors = resolvePullSyncPoints(parseSyncPointList(entry.syncPoints), pullLogSeconds);
+        anchors = normalizeAnchors([{ logSeconds: 0, videoSeconds: firstPullSeconds }, ...extraAnchors]);
+      } catch (error) {
+        throw new Error(
+          error instanceof Error
+            ? `Video #${entry.index + 1}: ${error.message}`
+            : `Video #${entry.index + 1} sync points are invalid.`,
+        );
+      }
+    }
+    const extraParts = entry.parts
+      .filter((part) => part.url.trim().length > 0)
+      .map((part, partIndex) => buildVideoPart(part, entry.index, partIndex, pullLogSeconds));
+    const parts = [{ url: entry.url, source, anchors }, ...extraParts].sort(
+      (a, b) => videoToLogSeconds(a.anchors, 0) - videoToLogSeconds(b.anchors, 0),
+    );
     const displayLabel = entry.label || `Video ${entry.index + 1}`;
     return {
-      url: entry.url,
-      source,
-      originalFirstPullSeconds: firstPullSeconds,
+      url: parts[0].url,
+      formIndex: entry.index,
+      parts,
+      originalFirstPullSeconds: logToVideoSeconds(parts[0].anchors, 0),
       label: displayLabel,
       characterName: entry.label ? entry.label.trim().toLowerCase() : null,
     };
   });
   parsed.sort((a, b) => a.originalFirstPullSeconds - b.originalFirstPullSeconds);
-  const base = parsed[0]?.originalFirstPullSeconds ?? 0;
   return parsed.map((entry) => ({
     url: entry.url,
-    source: entry.source,
+    formIndex: entry.formIndex,
+    parts: entry.parts,
     firstPullSeconds: entry.originalFirstPullSeconds,
-    offsetSeconds: entry.originalFirstPullSeconds - base,
     manualOffsetSeconds: 0,
     label: entry.label,
     characterName: entry.characterName,
@@ -1461,14 +2271,77 @@ function normalizeVideoOptions(
     (option) => option.firstPullSeconds + (option.manualOffsetSeconds ?? 0),
   );
   const minAdjusted = Math.min(...adjusted);
-  const normalized = options.map((option, index) => ({
+  const normalized = options.map((option) => ({
     ...option,
     manualOffsetSeconds: option.manualOffsetSeconds ?? 0,
-    offsetSeconds: adjusted[index] - minAdjusted,
   }));
   return { options: normalized, base: minAdjusted };
 }
 
+function applyCalibrationToFormEntry(
+  entry: VideoFormEntry,
+  partUrl: string,
+  anchors: SyncAnchor[],
+): VideoFormEntry {
+  if (entry.url.trim() === partUrl) {
+    const [single] = anchors;
+    if (anchors.length === 1 && single.logSeconds === 0 && single.videoSeconds >= 0) {
+      return { ...entry, firstPull: formatHhmmss(single.videoSeconds), syncPoints: "", anchors: undefined };
+    }
+    return { ...entry, syncPoints: "", anchors };
+  }
+  return {
+    ...entry,
+    parts: entry.parts.map((part) =>
+      part.url.trim() === partUrl ? { ...part, syncPoints: "", anchors } : part,
+    ),
+  };
+}
+
+function buildVideoPart(
+  part: VideoPartFormEntry,
+  videoIndex: number,
+  partIndex: number,
+  pullLogSeconds: number[],
+): VideoPart {
+  const prefix = `Video #${videoIndex + 1} part ${partIndex + 2}`;
+  const url = part.url.trim();
+  const source = detectVideoSource(url);
+  if (!source) {
+    throw new Error(`${prefix}: Unsupported URL. Use YouTube or a direct .mp4/.webm link.`);
+  }
+  let anchors: SyncAnchor[];
+  try {
+    anchors = part.anchors?.length
+      ? normalizeAnchors(part.anchors)
+      : normalizeAnchors(resolvePullSyncPoints(parseSyncPointList(part.syncPoints), pullLogSeconds));
+  } catch (error) {
+    throw new Error(error instanceof Error ? `${prefix}: ${error.message}` : `${prefix} sync points are invalid.`);
+  }
+  if (!anchors.length) {
+    throw new Error(`${prefix}: Add at least one sync point (e.g. "#9 00:04:12").`);
+  }
+  return { url, source, anchors };
+}
+
+/**
+ * Global time is the shared review clock (`FightRow.videoSeconds`); `baseSeconds` is the global time
+ * of the first pull. Each file of a POV maps it to its own position through its sync anchors.
+ */
+function buildPlayerParts(option: VideoOption, baseSeconds: number, fights: FightRow[]): VideoPlayerPart[] {
+  return option.parts.map((part) => {
+    const toLocalSeconds = (globalSeconds: number) =>
+      logToVideoSeconds(part.anchors, globalSeconds - baseSeconds) + option.manualOffsetSeconds;
+    return {
+      source: part.source,
+      toLocalSeconds,
+      toTimelineSeconds: (localSeconds: number) =>
+        videoToLogSeconds(part.anchors, localSeconds - option.manualOffsetSeconds) + baseSeconds,
+      captions: fights.length ? formatEventTrack(buildEventCues(fights, toLocalSeconds)) : null,
+    };
+  });
+}
+
 function buildActorClassMap(actors: ActorInfo[]): Record<string, string> {
   const map: Record<string, string> = {};
   actors.forEach((actor) => {
@@ -0,0 +1,80 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { fetchAccessState, unlockAccess, type AccessState } from "../lib/access";
+
+function AccessGate() {
+  const [access, setAccess] = useState<AccessState | null>(null);
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAccessState()
+      .then((result) => {
+        if (!cancelled) setAccess(result);
+      })
+      .catch(() => {
+        // Older proxies have no access route and serve everyone.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!access?.required || access.granted) {
+    return null;
+  }
+
+  const label =
+    access.methods.password && access.methods.keys
+      ? "Team password or API key"
+      : access.methods.password
+        ? "Team password"
+        : "API key";
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!secret.trim()) {
+      return;
+    }
+    setBusy(true);
+    try {
+      setAccess(await unlockAccess(secret.trim()));
+      setSecret("");
+      setError(null);
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : "Failed to unlock.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-4 rounded-2xl border border-amber-400/30 bg-amber-500/5 px-4 py-3 text-xs"
+    >
+      <p className="text-amber-100">This proxy is private. Enter the {label.toLowerCase()} to load reports.</p>
+      <div className="mt-2 flex gap-2">
+        <input
+          type="password"
+          value={secret}
+          onChange={(event) => setSecret(event.target.value)}
+          placeholder={label}
+          autoComplete="current-password"
+          className="min-w-0 flex-1 rounded-xl border border-slate-700 bg-slate-900/80 px-3 py-1.5 text-slate-100 focus:border-amber-300 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={busy || !secret.trim()}
+          className="whitespace-nowrap rounded-full border border-amber-300/60 px-3 py-1 font-semibold text-amber-100 transition hover:bg-amber-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {busy ? "Checking…" : "Unlock"}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-rose-400">{error}</p>}
+    </form>
+  );
+}
+
+export default AccessGate;
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { fetchAuthSession, getLoginUrl, logout, type AuthSession } from "../lib/auth";
+
+function AccountStatus() {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAuthSession()
+      .then((result) => {
+        if (!cancelled) setSession(result);
+      })
+      .catch(() => {
+        // Older proxies have no auth routes; the app keeps working with public reports only.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!session?.loginAvailable) {
+    return null;
+  }
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      setSession({ ...session, loggedIn: false, userName: null });
+      setError(null);
+    } catch (logoutError) {
+      setError(logoutError instanceof Error ? logoutError.message : "Failed to sign out.");
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-white/5 bg-slate-950/60 px-4 py-3 text-xs">
+      {session.loggedIn ? (
+        <div className="flex items-center justify-between gap-3">
+          <span className="flex items-center gap-2 text-slate-300">
+            <span className="h-2 w-2 rounded-full bg-emerald-400"></span>
+            Signed in to Warcraft Logs as
+            <span className="font-semibold text-emerald-200">{session.userName ?? "unknown user"}</span>
+            <span className="text-slate-500">· private reports enabled</span>
+          </span>
+          <button
+            type="button"
+            onClick={handleLogout}
+            className="rounded-full border border-slate-700 px-3 py-1 font-semibold text-slate-300 transition hover:border-slate-500"
+          >
+            Sign out
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-slate-400">Private or guild-only report? Sign in to load it with your account.</span>
+          <a
+            href={getLoginUrl()}
+            className="whitespace-nowrap rounded-full border border-indigo-400/60 px-3 py-1 font-semibold text-indigo-200 transition hover:bg-indigo-500/10"
+          >
+            Sign in with Warcraft Logs
+          </a>
+        </div>
+      )}
+      {error && <p className="mt-2 text-rose-400">{error}</p>}
+    </div>
+  );
+}
+
+export default AccountStatus;
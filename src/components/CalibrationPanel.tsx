@@ -0,0 +1,135 @@
+import {
+  MIN_CALIBRATION_MARKS,
+  type CalibrationMark,
+  type CalibrationResult,
+} from "../lib/calibration";
+import { formatHhmmss } from "../lib/logtime";
+
+interface CalibrationPanelProps {
+  videoLabel: string;
+  partIndex: number;
+  partCount: number;
+  selectedPull: number | null;
+  marks: CalibrationMark[];
+  result: CalibrationResult | null;
+  onMark: () => void;
+  onRemoveMark: (pull: number) => void;
+  onClear: () => void;
+  onApply: (mode: "offset" | "marks") => void;
+}
+
+function CalibrationPanel({
+  videoLabel,
+  partIndex,
+  partCount,
+  selectedPull,
+  marks,
+  result,
+  onMark,
+  onRemoveMark,
+  onClear,
+  onApply,
+}: CalibrationPanelProps) {
+  const target = partCount > 1 ? `${videoLabel} · part ${partIndex + 1}` : videoLabel;
+  return (
+    <div className="mt-4 space-y-3 border border-amber-300/20 bg-slate-950/70 p-4 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.2em] text-amber-200">Sync calibration</p>
+          <p className="text-xs text-slate-500">
+            Pause on the exact frame each pull starts in {target}, then mark it. Two or more pulls are needed.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onMark}
+          disabled={selectedPull == null}
+          className="rounded-full border border-amber-300/60 px-4 py-1 text-xs font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-300/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {selectedPull != null ? `Pull #${selectedPull} started here` : "Select a boss pull"}
+        </button>
+      </div>
+      {marks.length > 0 && (
+        <ul className="space-y-1 font-mono text-xs">
+          {marks.map((mark) => {
+            const residual = result?.residuals.find((entry) => entry.pull === mark.pull);
+            return (
+              <li key={`mark-${mark.pull}`} className="flex items-center gap-3">
+                <span className="w-12 text-slate-400">#{mark.pull}</span>
+                <span className="text-slate-200">{formatHhmmss(mark.videoSeconds)}</span>
+                {residual && (
+                  <span className={getResidualClass(residual.residualSeconds)}>
+                    {formatSignedSeconds(residual.residualSeconds)}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemoveMark(mark.pull)}
+                  className="ml-auto text-rose-300 transition hover:text-rose-200"
+                >
+                  remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {result ? (
+        <div className="space-y-2 border-t border-slate-800 pt-3 text-xs">
+          <p>
+            First pull at <span className="font-mono text-slate-100">{formatHhmmss(result.offsetSeconds)}</span>
+            {" · "}max residual {result.maxAbsResidualSeconds.toFixed(1)}s
+            {result.driftSecondsPerHour != null && ` · drift ${formatSignedSeconds(result.driftSecondsPerHour)}/h`}
+          </p>
+          {result.maxAbsResidualSeconds > 3 && (
+            <p className="text-amber-300">
+              Residuals are large: this clip probably has cuts or drift. Use the marks as sync points instead of a
+              single offset.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => onApply("offset")}
+              className="rounded-full border border-slate-600 px-3 py-1 font-semibold uppercase tracking-wide transition hover:border-emerald-400 hover:text-emerald-200"
+            >
+              Apply offset
+            </button>
+            <button
+              type="button"
+              onClick={() => onApply("marks")}
+              className="rounded-full border border-slate-600 px-3 py-1 font-semibold uppercase tracking-wide transition hover:border-emerald-400 hover:text-emerald-200"
+            >
+              Use marks as sync points
+            </button>
+            <button
+              type="button"
+              onClick={onClear}
+              className="rounded-full border border-slate-700 px-3 py-1 font-semibold uppercase tracking-wide text-slate-400 transition hover:text-slate-200"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          {marks.length}/{MIN_CALIBRATION_MARKS} pulls marked.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default CalibrationPanel;
+
+function formatSignedSeconds(value: number): string {
+  const sign = value >= 0 ? "+" : "-";
+  return `${sign}${Math.abs(value).toFixed(1)}s`;
+}
+
+function getResidualClass(residual: number): string {
+  const magnitude = Math.abs(residual);
+  if (magnitude < 1) return "text-emerald-400";
+  if (magnitude < 3) return "text-amber-300";
+  return "text-rose-400";
+}
@@ -0,0 +1,167 @@
+import { useMemo, useState } from "react";
+import {
+  CHAPTER_FORMATS,
+  CHAPTER_TEMPLATE_TOKENS,
+  DEFAULT_CHAPTER_TEMPLATE,
+  buildChapters,
+  formatChapters,
+  type ChapterFormat,
+} from "../lib/chapters";
+import type { FightRow } from "../lib/logtime";
+
+interface ChapterExportPanelProps {
+  fights: FightRow[];
+  videoLabel: string | null;
+  mapSeconds?: (globalSeconds: number) => number;
+  fileName: string;
+  /** Death, phase and tracked-cast captions per file of the active POV. */
+  eventTracks: Array<{ label: string; content: string }>;
+  onStatus: (status: { kind: "success" | "error"; message: string }) => void;
+}
+
+function ChapterExportPanel({
+  fights,
+  videoLabel,
+  mapSeconds,
+  fileName,
+  eventTracks,
+  onStatus,
+}: ChapterExportPanelProps) {
+  const [format, setFormat] = useState<ChapterFormat>("youtube");
+  const [template, setTemplate] = useState(DEFAULT_CHAPTER_TEMPLATE);
+  const [includeTrash, setIncludeTrash] = useState(false);
+  const hasTrash = fights.some((fight) => fight.isTrash);
+
+  const chapterList = useMemo(
+    () => buildChapters(fights, { template, includeTrash, mapSeconds }),
+    [fights, template, includeTrash, mapSeconds],
+  );
+  const output = useMemo(
+    () => formatChapters(chapterList, format, fileName),
+    [chapterList, format, fileName],
+  );
+  const formatInfo = CHAPTER_FORMATS.find((entry) => entry.id === format) ?? CHAPTER_FORMATS[0];
+
+  const handleCopy = () => {
+    navigator.clipboard
+      .writeText(output)
+      .then(() => onStatus({ kind: "success", message: `Copied ${formatInfo.label} to clipboard.` }))
+      .catch(() => onStatus({ kind: "error", message: "Clipboard copy failed. Select manually instead." }));
+  };
+
+  const handleDownload = () => {
+    downloadText(output, `${fileName}.${formatInfo.extension}`, formatInfo.mimeType);
+  };
+
+  return (
+    <section className="mb-6 space-y-4 border border-slate-800 bg-slate-950/70 p-5 text-sm text-slate-300">
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+          Format
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ChapterFormat)}
+            className="rounded border border-slate-700 bg-slate-900 px-2 py-1 text-sm normal-case tracking-normal text-slate-100 outline-none focus:border-indigo-400"
+          >
+            {CHAPTER_FORMATS.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex min-w-[18rem] flex-1 flex-col gap-1 text-xs uppercase tracking-wide text-slate-400">
+          Title template
+          <input
+            value={template}
+            onChange={(event) => setTemplate(event.target.value)}
+            className="rounded border border-slate-700 bg-slate-900 px-2 py-1 font-mono text-sm normal-case tracking-normal text-slate-100 outline-none focus:border-indigo-400"
+          />
+        </label>
+        {hasTrash && (
+          <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+            <input
+              type="checkbox"
+              checked={includeTrash}
+              onChange={(event) => setIncludeTrash(event.target.checked)}
+              className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-amber-300 focus:ring-amber-300"
+            />
+            Trash
+          </label>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="rounded-full border border-slate-700 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-slate-900"
+          >
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="rounded-full border border-slate-700 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:bg-slate-900"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        Placeholders: {CHAPTER_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(" ")}
+        {videoLabel ? ` · Timestamps follow ${videoLabel}.` : " · Timestamps follow the review timeline."}
+      </p>
+      {(chapterList.issues.length > 0 || chapterList.fixes.length > 0) && (
+        <ul className="space-y-1 text-xs">
+          {chapterList.issues.map((issue, index) => (
+            <li key={`issue-${index}`} className="text-rose-400">
+              {issue}
+            </li>
+          ))}
+          {chapterList.fixes.map((fix, index) => (
+            <li key={`fix-${index}`} className="text-amber-300">
+              {fix}
+            </li>
+          ))}
+        </ul>
+      )}
+      {eventTracks.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 border-t border-slate-800 pt-4 text-xs">
+          <span className="uppercase tracking-wide text-slate-400">Event captions (WebVTT)</span>
+          {eventTracks.map((track, index) => (
+            <button
+              key={`track-${index}`}
+              type="button"
+              onClick={() =>
+                downloadText(
+                  track.content,
+                  `${fileName}-events${eventTracks.length > 1 ? `-part${index + 1}` : ""}.vtt`,
+                  "text/vtt",
+                )
+              }
+              className="rounded-full border border-slate-700 px-3 py-1 font-semibold text-slate-200 transition hover:bg-slate-900"
+            >
+              {track.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <textarea
+        readOnly
+        value={output}
+        rows={Math.min(14, Math.max(4, output.split("\n").length))}
+        className="w-full rounded border border-slate-800 bg-slate-900 p-3 font-mono text-xs text-slate-200 outline-none"
+      />
+    </section>
+  );
+}
+
+export default ChapterExportPanel;
+
+function downloadText(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { buildBossDeathAnalytics, type DeathReference } from "../lib/deathAnalytics";
+import { formatDuration, type ActorInfo, type FightRow } from "../lib/logtime";
+import { getClassColor } from "../lib/classColors";
+
+interface DeathAnalyticsPanelProps {
+  bossName: string;
+  fights: FightRow[];
+  actors: ActorInfo[];
+  actorClassMap: Record<string, string>;
+  hasVideo: boolean;
+  onJump: (videoSeconds: number) => void;
+}
+
+function DeathAnalyticsPanel({
+  bossName,
+  fights,
+  actors,
+  actorClassMap,
+  hasVideo,
+  onJump,
+}: DeathAnalyticsPanelProps) {
+  const [includeNonPlayers, setIncludeNonPlayers] = useState(false);
+  const analytics = useMemo(
+    () => buildBossDeathAnalytics(bossName, fights, { actors, includeNonPlayers }),
+    [bossName, fights, actors, includeNonPlayers],
+  );
+
+  const renderJump = (death: DeathReference, label: string) => (
+    <button
+      key={`${death.pull}-${death.player}-${death.offsetSeconds}`}
+      type="button"
+      disabled={!hasVideo}
+      onClick={() => onJump(death.videoSeconds)}
+      title={`${death.player} · Pull #${death.pull} at ${formatDuration(death.offsetSeconds)}`}
+      className="rounded border border-slate-800 px-1.5 py-0.5 font-mono text-[0.65rem] text-slate-300 transition hover:border-rose-400 hover:text-rose-200 disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      {label}
+    </button>
+  );
+
+  const getPlayerStyle = (player: string) => {
+    const className = actorClassMap[player.trim().toLowerCase()];
+    const color = className ? getClassColor(className) : null;
+    return color ? { color } : undefined;
+  };
+
+  return (
+    <div className="mt-4 space-y-4 border-t border-slate-800 pt-4 text-xs text-slate-300">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-slate-400">
+          {analytics.pullsWithDeaths}/{analytics.pullCount} pulls with deaths
+          {analytics.averageFirstDeathSeconds != null &&
+            ` · first death after ${formatDuration(analytics.averageFirstDeathSeconds)} on average`}
+        </p>
+        <label className="flex items-center gap-2 uppercase tracking-wide text-slate-500">
+          <input
+            type="checkbox"
+            checked={includeNonPlayers}
+            onChange={(event) => setIncludeNonPlayers(event.target.checked)}
+            className="h-3.5 w-3.5 rounded border-slate-600 bg-slate-900 text-rose-300 focus:ring-rose-300"
+          />
+          Pets & NPCs
+        </label>
+      </div>
+
+      {analytics.pullsWithDeaths === 0 ? (
+        <p className="text-slate-500">No deaths recorded on this boss.</p>
+      ) : (
+        <>
+          <div>
+            <p className="mb-2 font-semibold uppercase tracking-[0.2em] text-slate-500">First to die</p>
+            <ul className="space-y-1">
+              {analytics.firstDeaths.map((stat) => (
+                <li key={stat.player} className="flex flex-wrap items-center gap-2">
+                  <span className="w-32 truncate font-semibold" style={getPlayerStyle(stat.player)}>
+                    {stat.player}
+                  </span>
+                  <span className="w-8 text-rose-300">{stat.count}×</span>
+                  {stat.deaths.map((death) =>
+                    renderJump(death, `#${death.pull} ${formatDuration(death.offsetSeconds)}`),
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="overflow-x-auto">
+            <p className="mb-2 font-semibold uppercase tracking-[0.2em] text-slate-500">Deaths per phase</p>
+            <table className="w-full border-collapse text-left">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="py-1 pr-3 font-medium">Player</th>
+                  {analytics.phaseLabels.map((phase) => (
+                    <th key={phase} className="py-1 pr-3 font-medium">
+                      {phase}
+                    </th>
+                  ))}
+                  <th className="py-1 font-medium">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.playerPhaseDeaths.map((entry) => (
+                  <tr key={entry.player} className="border-t border-slate-900 align-top">
+                    <td className="py-1 pr-3 font-semibold" style={getPlayerStyle(entry.player)}>
+                      {entry.player}
+                    </td>
+                    {analytics.phaseLabels.map((phase) => (
+                      <td key={phase} className="py-1 pr-3">
+                        <div className="flex flex-wrap gap-1">
+                          {(entry.byPhase[phase] ?? []).map((death) => renderJump(death, `#${death.pull}`))}
+                        </div>
+                      </td>
+                    ))}
+                    <td className="py-1 text-rose-300">{entry.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <p className="mb-2 font-semibold uppercase tracking-[0.2em] text-slate-500">
+              Early death cascades · {analytics.cascadeWipes.length} wipe
+              {analytics.cascadeWipes.length === 1 ? "" : "s"}
+            </p>
+            {analytics.cascadeWipes.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {analytics.cascadeWipes.map((death) =>
+                  renderJump(death, `#${death.pull} ${death.player} @ ${formatDuration(death.offsetSeconds)}`),
+                )}
+              </div>
+            ) : (
+              <p className="text-slate-500">No wipes started with a chain of early deaths.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DeathAnalyticsPanel;
@@ -0,0 +1,161 @@
+import { useMemo } from "react";
+import {
+  hasDefensiveFightFilter,
+  matchDefensiveFights,
+  type DefensiveFightFilter,
+  type DefensiveFightSummary,
+} from "../lib/defensives";
+import { formatDuration } from "../lib/logtime";
+
+interface DefensiveFightPickerProps {
+  fights: DefensiveFightSummary[];
+  filter: DefensiveFightFilter;
+  appliedFightIds: number[] | null;
+  loading: boolean;
+  onChange: (filter: DefensiveFightFilter) => void;
+  onApply: () => void;
+  onClear: () => void;
+}
+
+function DefensiveFightPicker({
+  fights,
+  filter,
+  appliedFightIds,
+  loading,
+  onChange,
+  onApply,
+  onClear,
+}: DefensiveFightPickerProps) {
+  const encounters = useMemo(() => {
+    const byId = new Map<number, string>();
+    fights.forEach((fight) => {
+      if (fight.encounterID != null && !byId.has(fight.encounterID)) {
+        byId.set(fight.encounterID, fight.name);
+      }
+    });
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [fights]);
+  const active = hasDefensiveFightFilter(filter);
+  const previewIds = useMemo(
+    () => new Set(active ? matchDefensiveFights(fights, filter).map((fight) => fight.id as number) : []),
+    [active, fights, filter],
+  );
+  const appliedIds = new Set(appliedFightIds ?? []);
+
+  // Picking pulls by hand replaces the boss filters, starting from whatever they currently match.
+  const toggleFight = (fightId: number) => {
+    const next = new Set(active ? previewIds : appliedIds);
+    if (next.has(fightId)) {
+      next.delete(fightId);
+    } else {
+      next.add(fightId);
+    }
+    const fightIds = fights.map((fight) => fight.id).filter((id): id is number => id != null && next.has(id));
+    onChange(fightIds.length ? { fightIds } : {});
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-800/60 bg-slate-950/50 p-4 text-xs text-slate-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <p className="font-semibold uppercase tracking-[0.2em] text-slate-500">Pulls</p>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={Boolean(filter.killsOnly)}
+            onChange={(event) =>
+              onChange({
+                killsOnly: event.target.checked || undefined,
+                encounterId: filter.encounterId,
+                lastPulls: filter.lastPulls,
+              })
+            }
+            className="h-3.5 w-3.5 rounded border-slate-600 bg-slate-900 text-emerald-300 focus:ring-emerald-300"
+          />
+          Kills only
+        </label>
+        <select
+          value={filter.encounterId ?? ""}
+          onChange={(event) =>
+            onChange({
+              killsOnly: filter.killsOnly,
+              encounterId: event.target.value ? Number(event.target.value) : undefined,
+              lastPulls: filter.lastPulls,
+            })
+          }
+          className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-slate-200"
+        >
+          <option value="">Every boss</option>
+          {encounters.map((encounter) => (
+            <option key={`encounter-${encounter.id}`} value={encounter.id}>
+              {encounter.name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          Last
+          <input
+            type="number"
+            min={1}
+            value={filter.lastPulls ?? ""}
+            onChange={(event) => {
+              const lastPulls = Number(event.target.value);
+              onChange({
+                killsOnly: filter.killsOnly,
+                encounterId: filter.encounterId,
+                lastPulls: Number.isInteger(lastPulls) && lastPulls > 0 ? lastPulls : undefined,
+              });
+            }}
+            className="w-16 rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-slate-200"
+            placeholder="all"
+          />
+          pulls
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {fights.map((fight, index) => {
+          if (fight.id == null) return null;
+          const fightId = fight.id;
+          const selected = active ? previewIds.has(fightId) : appliedIds.has(fightId);
+          return (
+            <button
+              key={`pick-${fightId}`}
+              type="button"
+              onClick={() => toggleFight(fightId)}
+              className={`rounded-full border px-3 py-1 transition ${
+                selected
+                  ? "border-indigo-400 bg-indigo-500/20 text-indigo-100"
+                  : "border-slate-800/40 bg-slate-900/60 text-slate-300 hover:border-slate-600"
+              }`}
+            >
+              #{index + 1} {fight.name} · {formatDuration(Math.round((fight.duration ?? 0) / 1000))}
+              {fight.kill ? " · Kill" : ""}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          disabled={loading || !active || previewIds.size === 0}
+          onClick={onApply}
+          className="rounded-xl bg-indigo-500/80 px-3 py-1.5 font-semibold text-white transition hover:bg-indigo-500 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Compare {previewIds.size || ""} pull{previewIds.size === 1 ? "" : "s"}
+        </button>
+        {(active || appliedFightIds) && (
+          <button
+            type="button"
+            disabled={loading}
+            onClick={onClear}
+            className="rounded-xl border border-slate-700 px-3 py-1.5 text-slate-300 transition hover:border-slate-500 disabled:opacity-50"
+          >
+            Clear selection
+          </button>
+        )}
+        {active && previewIds.size === 0 && <span className="text-rose-300">No pulls match this filter.</span>}
+      </div>
+    </div>
+  );
+}
+
+export default DefensiveFightPicker;
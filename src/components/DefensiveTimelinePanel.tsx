@@ -0,0 +1,85 @@
+import { formatDuration } from "../lib/logtime";
+import { getClassColor } from "../lib/classColors";
+import { describeDeathVerdict, type DefensiveTimeline } from "../lib/defensiveTimeline";
+
+interface DefensiveTimelinePanelProps {
+  timeline: DefensiveTimeline;
+  canOpenReview: boolean;
+  onOpen: (offsetSeconds: number) => void;
+}
+
+function DefensiveTimelinePanel({ timeline, canOpenReview, onOpen }: DefensiveTimelinePanelProps) {
+  const duration = Math.max(1, timeline.durationSeconds);
+  const getLeft = (offsetSeconds: number) => `${Math.min(100, Math.max(0, (offsetSeconds / duration) * 100))}%`;
+  const openHint = canOpenReview ? " · click to open in VOD review" : "";
+
+  if (!timeline.lanes.length) {
+    return <p className="text-xs text-slate-500">No defensive casts or deaths in this pull.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-xs text-slate-300">
+      <div className="space-y-1.5">
+        {timeline.lanes.map((lane) => (
+          <div key={lane.player} className="flex items-center gap-3">
+            <span
+              className="w-32 shrink-0 truncate font-semibold"
+              style={{ color: getClassColor(lane.className) ?? undefined }}
+            >
+              {lane.player}
+            </span>
+            <div className="relative h-6 flex-1 rounded bg-slate-900/80">
+              {lane.casts.map((cast, index) => (
+                <button
+                  key={`cast-${index}`}
+                  type="button"
+                  onClick={() => onOpen(cast.offsetSeconds)}
+                  title={`${cast.ability.name} at ${formatDuration(Math.round(cast.offsetSeconds))}${openHint}`}
+                  className="absolute top-1 h-4 w-1.5 -translate-x-1/2 rounded-sm bg-emerald-400 transition hover:scale-125"
+                  style={{ left: getLeft(cast.offsetSeconds) }}
+                />
+              ))}
+              {lane.deathOffsets.map((offset, index) => (
+                <button
+                  key={`death-${index}`}
+                  type="button"
+                  onClick={() => onOpen(offset)}
+                  title={`Died at ${formatDuration(Math.round(offset))}${openHint}`}
+                  className="absolute top-0 -translate-x-1/2 text-sm font-bold leading-6 text-rose-400 hover:text-rose-200"
+                  style={{ left: getLeft(offset) }}
+                >
+                  ×
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {timeline.deaths.length > 0 && (
+        <div>
+          <p className="mb-2 font-semibold uppercase tracking-[0.2em] text-slate-500">Deaths</p>
+          <ul className="space-y-1">
+            {timeline.deaths.map((death, index) => (
+              <li key={`${death.player}-${index}`} className="flex flex-wrap items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onOpen(death.offsetSeconds)}
+                  className="rounded border border-slate-800 px-1.5 py-0.5 font-mono text-[0.65rem] text-slate-300 transition hover:border-rose-400 hover:text-rose-200"
+                >
+                  {formatDuration(Math.round(death.offsetSeconds))}
+                </button>
+                <span className="font-semibold text-slate-100">{death.player}</span>
+                <span className={death.ready.length ? "text-amber-300" : "text-slate-400"}>
+                  {describeDeathVerdict(death)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DefensiveTimelinePanel;
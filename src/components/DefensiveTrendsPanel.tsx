@@ -0,0 +1,316 @@
+import { FormEvent, useMemo, useState } from "react";
+import {
+  fetchDefensiveTrends,
+  type DefensiveReportSnapshot,
+  type DefensiveTrendsRequest,
+  type DefensiveTrendsResponse,
+} from "../lib/defensives";
+import { buildDefensiveTrends, describeCharacter, type DefensiveTrendPoint } from "../lib/defensiveTrends";
+import { getClassColor } from "../lib/classColors";
+import { parseReportIdList } from "../lib/logtime";
+import { describeRateLimitWait, retryWhenRateLimited } from "../lib/rateLimit";
+
+type TrendsSource = "reports" | "guild";
+
+const REGIONS = ["us", "eu", "kr", "tw", "cn"];
+const WIDTH = 360;
+const HEIGHT = 160;
+const PAD_X = 32;
+const PAD_Y = 14;
+
+function DefensiveTrendsPanel() {
+  const [source, setSource] = useState<TrendsSource>("reports");
+  const [reportInput, setReportInput] = useState("");
+  const [guild, setGuild] = useState({ name: "", server: "", region: "us" });
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState("");
+  const [data, setData] = useState<DefensiveTrendsResponse | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const lines = useMemo(() => (data ? buildDefensiveTrends(data.reports) : []), [data]);
+  const selected = lines.find((line) => line.key === selectedKey) ?? lines[0] ?? null;
+  const revisionNote = useMemo(() => describeRevisions(data?.reports ?? []), [data]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    let request: DefensiveTrendsRequest;
+    try {
+      request =
+        source === "reports"
+          ? { reportIds: parseReportIdList(reportInput) }
+          : {
+              guild,
+              startTime: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+              endTime: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined,
+            };
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Enter report IDs or URLs.");
+      return;
+    }
+    setLoading(true);
+    setStatus("Loading defensive usage for each report…");
+    try {
+      const payload = await retryWhenRateLimited(
+        () => fetchDefensiveTrends(request),
+        (secondsLeft, error) => setStatus(describeRateLimitWait(secondsLeft, error.source)),
+      );
+      setData(payload);
+      setSelectedKey(null);
+      const count = payload.reports.length;
+      setStatus(
+        [`Compared ${count} report${count === 1 ? "" : "s"}.`, ...(payload.warnings ?? [])].join(" "),
+      );
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Failed to load defensive trends.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = "rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-slate-200";
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/70 p-5 shadow-xl shadow-black/40">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-semibold text-slate-100">Defensive trends</h3>
+        <p className="text-xs text-slate-400">
+          Follows each player's uses per minute and coverage across reports, matched by name and realm.
+        </p>
+      </div>
+      <form className="mt-4 space-y-3 text-xs text-slate-300" onSubmit={handleSubmit}>
+        <div className="flex flex-wrap items-center gap-3">
+          {(["reports", "guild"] as TrendsSource[]).map((option) => (
+            <label key={`source-${option}`} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="trends-source"
+                checked={source === option}
+                onChange={() => setSource(option)}
+                className="h-3.5 w-3.5 border-slate-600 bg-slate-900 text-indigo-400 focus:ring-indigo-400"
+              />
+              {option === "reports" ? "Report codes" : "Guild and dates"}
+            </label>
+          ))}
+        </div>
+        {source === "reports" ? (
+          <textarea
+            value={reportInput}
+            onChange={(event) => setReportInput(event.target.value)}
+            rows={2}
+            className={`${inputClass} w-full font-mono`}
+            placeholder="Report IDs or URLs, separated by spaces or new lines"
+          />
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              required
+              value={guild.name}
+              onChange={(event) => setGuild({ ...guild, name: event.target.value })}
+              className={inputClass}
+              placeholder="Guild"
+            />
+            <input
+              type="text"
+              required
+              value={guild.server}
+              onChange={(event) => setGuild({ ...guild, server: event.target.value })}
+              className={inputClass}
+              placeholder="Realm"
+            />
+            <select
+              value={guild.region}
+              onChange={(event) => setGuild({ ...guild, region: event.target.value })}
+              className={inputClass}
+            >
+              {REGIONS.map((region) => (
+                <option key={`region-${region}`} value={region}>
+                  {region.toUpperCase()}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              From
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(event) => setFromDate(event.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              to
+              <input
+                type="date"
+                value={toDate}
+                onChange={(event) => setToDate(event.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="submit"
+            disabled={loading}
+            className="rounded-xl bg-indigo-500/80 px-3 py-1.5 font-semibold text-white transition hover:bg-indigo-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {loading ? "Loading…" : "Show trends"}
+          </button>
+          {status && <span className="text-slate-300">{status}</span>}
+        </div>
+      </form>
+
+      {data && selected && (
+        <div className="mt-5 space-y-4 text-xs text-slate-300">
+          {revisionNote && <p className="text-amber-300">{revisionNote}</p>}
+          <select
+            value={selected.key}
+            onChange={(event) => setSelectedKey(event.target.value)}
+            className={inputClass}
+          >
+            {lines.map((line) => (
+              <option key={line.key} value={line.key}>
+                {describeCharacter(line)} · {line.points.length} report{line.points.length === 1 ? "" : "s"}
+              </option>
+            ))}
+          </select>
+          <div className="grid gap-4 md:grid-cols-2">
+            <TrendChart
+              title="Uses per minute"
+              reports={data.reports}
+              points={selected.points}
+              read={(point) => point.usesPerMinute}
+              format={(value) => value.toFixed(2)}
+              color={getClassColor(selected.className) ?? "#818cf8"}
+            />
+            <TrendChart
+              title="Coverage"
+              reports={data.reports}
+              points={selected.points}
+              read={(point) => (point.coverage != null ? point.coverage * 100 : null)}
+              format={(value) => `${Math.round(value)}%`}
+              maxValue={100}
+              color={getClassColor(selected.className) ?? "#818cf8"}
+            />
+          </div>
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="py-1 pr-3 font-medium">Date</th>
+                <th className="py-1 pr-3 font-medium">Report</th>
+                <th className="py-1 pr-3 font-medium">Spec</th>
+                <th className="py-1 pr-3 font-medium">Uses</th>
+                <th className="py-1 pr-3 font-medium">Per minute</th>
+                <th className="py-1 font-medium">Coverage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.points.map((point) => (
+                <tr key={`trend-row-${point.reportCode}`} className="border-t border-slate-900">
+                  <td className="py-1 pr-3">{formatReportDate(point.startTime)}</td>
+                  <td className="py-1 pr-3 font-mono text-slate-500">{point.reportCode}</td>
+                  <td className="py-1 pr-3">{point.specName ?? "—"}</td>
+                  <td className="py-1 pr-3">
+                    {point.uses}
+                  </td>
+                  <td className="py-1 pr-3">{point.usesPerMinute != null ? point.usesPerMinute.toFixed(2) : "—"}</td>
+                  <td className="py-1">
+                    {point.coverage != null
+                      ? `${Math.round(point.coverage * 100)}% (${point.coverageUses}/${point.possible})`
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {data && !lines.length && <p className="mt-4 text-xs text-slate-500">No defensive casts in these reports.</p>}
+    </section>
+  );
+}
+
+export default DefensiveTrendsPanel;
+
+interface TrendChartProps {
+  title: string;
+  reports: DefensiveReportSnapshot[];
+  points: DefensiveTrendPoint[];
+  read: (point: DefensiveTrendPoint) => number | null;
+  format: (value: number) => string;
+  /** Top of the scale; defaults to the largest value. */
+  maxValue?: number;
+  color: string;
+}
+
+// Reports sit at even steps in date order, so a report the player missed leaves a gap in the line.
+function TrendChart({ title, reports, points, read, format, maxValue, color }: TrendChartProps) {
+  const values = points
+    .map((point) => ({ point, index: reports.findIndex((report) => report.code === point.reportCode) }))
+    .map(({ point, index }) => ({ point, index, value: read(point) }))
+    .filter((entry): entry is { point: DefensiveTrendPoint; index: number; value: number } =>
+      entry.index >= 0 && entry.value != null,
+    );
+  const top = maxValue ?? Math.max(0.01, ...values.map((entry) => entry.value));
+  const plotWidth = WIDTH - PAD_X * 2;
+  const plotHeight = HEIGHT - PAD_Y * 2;
+  const getX = (index: number) =>
+    reports.length === 1 ? WIDTH / 2 : PAD_X + (index / (reports.length - 1)) * plotWidth;
+  const getY = (value: number) => PAD_Y + (1 - Math.min(value, top) / top) * plotHeight;
+  const linePath = values
+    .map((entry, order) => `${order === 0 ? "M" : "L"}${getX(entry.index)},${getY(entry.value)}`)
+    .join(" ");
+
+  return (
+    <div className="rounded-2xl border border-slate-800/60 bg-slate-950/60 p-3">
+      <p className="font-semibold uppercase tracking-[0.2em] text-slate-500">{title}</p>
+      {values.length ? (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="mt-2 w-full" role="img" aria-label={title}>
+          {[0, 0.5, 1].map((share) => (
+            <g key={`tick-${share}`}>
+              <line
+                x1={PAD_X}
+                x2={WIDTH - PAD_X}
+                y1={getY(top * share)}
+                y2={getY(top * share)}
+                className="stroke-slate-800"
+              />
+              <text x={PAD_X - 4} y={getY(top * share) + 3} textAnchor="end" className="fill-slate-500 text-[9px]">
+                {format(top * share)}
+              </text>
+            </g>
+          ))}
+          <path d={linePath} fill="none" stroke={color} strokeOpacity={0.7} strokeWidth={1.5} />
+          {values.map(({ point, index, value }) => (
+            <circle key={`trend-${point.reportCode}`} cx={getX(index)} cy={getY(value)} r={3.5} fill={color}>
+              <title>{`${formatReportDate(point.startTime)} · ${point.reportCode} · ${format(value)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      ) : (
+        <p className="mt-2 text-slate-500">No data for this player.</p>
+      )}
+    </div>
+  );
+}
+
+// Possible uses follow the catalog, so reports scored with different catalogs do not compare cleanly.
+// Catalogs are told apart by their content key; the revision only labels them.
+function describeRevisions(reports: DefensiveReportSnapshot[]): string | null {
+  const catalogs = new Map(reports.map((report) => [report.catalogKey, report.revision]));
+  if (catalogs.size < 2) {
+    return null;
+  }
+  const labels = Array.from(catalogs, ([catalogKey, revision]) =>
+    revision != null ? `catalog revision ${revision}` : `an unversioned catalog (${catalogKey})`,
+  );
+  return `Possible uses were computed with ${labels.join(", ")}, so coverage may not line up across reports.`;
+}
+
+function formatReportDate(startTime: number | null): string {
+  return startTime != null
+    ? new Date(startTime).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+    : "Unknown date";
+}
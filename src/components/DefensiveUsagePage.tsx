@@ -1,22 +1,80 @@
-import { FormEvent, useMemo, useState } from "react";
+import { FormEvent, useMemo, useRef, useState } from "react";
 import {
+  fetchDefensiveTimeline,
   fetchDefensiveUsage,
+  findDefensiveAbility,
+  filterDefensivePlayers,
+  findDefensivePlayer,
+  getCoverageUses,
+  getDefensiveCoverage,
+  groupAbilitiesByCategory,
+  groupPlayersByRole,
+  hasDefensiveFightFilter,
+  sortDefensivePlayers,
+  DEFENSIVE_ROLE_LABELS,
+  type DefensiveFightFilter,
+  type DefensivePlayerFilter,
+  type DefensivePlayerSort,
   type DefensivePlayerUsage,
+  type DefensiveRole,
+  type DefensiveReviewTarget,
+  type DefensiveTimelineResponse,
   type DefensiveUsageResponse,
   type DefensiveAbilityUsage,
 } from "../lib/defensives";
-import { formatDuration, type ReportMeta } from "../lib/logtime";
+import { extractReportId, formatDuration, type ReportMeta } from "../lib/logtime";
 import { getClassColor } from "../lib/classColors";
+import { describeRateLimitWait, retryWhenRateLimited } from "../lib/rateLimit";
+import { buildDefensiveTimeline } from "../lib/defensiveTimeline";
+import DefensiveFightPicker from "./DefensiveFightPicker";
+import DefensiveTimelinePanel from "./DefensiveTimelinePanel";
+import DefensiveTrendsPanel from "./DefensiveTrendsPanel";
 
 type StatusState =
   | { kind: "idle"; message: "" }
   | { kind: "info" | "success" | "error"; message: string };
 
-function DefensiveUsagePage() {
+interface DefensiveUsagePageProps {
+  /** Opens the VOD review at a moment of a fight; the timeline is view-only without it. */
+  onOpenInReview?: (target: DefensiveReviewTarget) => void;
+}
+
+function DefensiveUsagePage({ onOpenInReview }: DefensiveUsagePageProps) {
   const [reportId, setReportId] = useState("");
   const [status, setStatus] = useState<StatusState>({ kind: "idle", message: "" });
   const [loading, setLoading] = useState(false);
   const [data, setData] = useState<DefensiveUsageResponse | null>(null);
+  const [loadedReportId, setLoadedReportId] = useState("");
+  const [fightFilter, setFightFilter] = useState<DefensiveFightFilter>({});
+  const selection = data?.selection ?? null;
+  const [timelineFightId, setTimelineFightId] = useState<number | null>(null);
+  const [timelineData, setTimelineData] = useState<DefensiveTimelineResponse | null>(null);
+  const [timelineStatus, setTimelineStatus] = useState("");
+  // Bumped per timeline request so a slower response for an earlier pick cannot overwrite the current one.
+  const timelineRequestRef = useRef(0);
+  const timeline = useMemo(
+    () => (timelineData && data ? buildDefensiveTimeline(timelineData, data.players) : null),
+    [timelineData, data],
+  );
+
+  const [playerFilter, setPlayerFilter] = useState<DefensivePlayerFilter>({});
+  const [playerSort, setPlayerSort] = useState<DefensivePlayerSort>("uses");
+  const classOptions = useMemo(() => collectOptions(data?.players ?? [], (player) => player.className), [data]);
+  const specOptions = useMemo(
+    () =>
+      collectOptions(
+        filterDefensivePlayers(data?.players ?? [], { className: playerFilter.className }),
+        (player) => player.specName,
+      ),
+    [data, playerFilter.className],
+  );
+  const roleGroups = useMemo(
+    () =>
+      groupPlayersByRole(
+        sortDefensivePlayers(filterDefensivePlayers(data?.players ?? [], playerFilter), playerSort),
+      ),
+    [data, playerFilter, playerSort],
+  );
 
   const reportSubtitle = useMemo(() => buildReportSubtitle(data?.report ?? null), [data]);
   const totalDurationSeconds = useMemo(() => {
@@ -32,21 +90,25 @@ function DefensiveUsagePage() {
         ? "text-emerald-400"
         : "text-slate-300";
 
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    if (!reportId.trim()) {
-      setStatus({ kind: "error", message: "Enter a report ID or URL." });
-      return;
-    }
-    setStatus({ kind: "info", message: "Loading defensive usage…" });
+  const loadUsage = async (targetReportId: string, filter: DefensiveFightFilter | null) => {
+    setStatus({ kind: "info", message: filter ? "Loading selected pulls…" : "Loading defensive usage…" });
     setLoading(true);
 
     try {
-      const payload = await fetchDefensiveUsage(reportId.trim());
+      const code = extractReportId(targetReportId);
+      const payload = await retryWhenRateLimited(
+        () => fetchDefensiveUsage(code, filter),
+        (secondsLeft, error) =>
+          setStatus({ kind: "info", message: describeRateLimitWait(secondsLeft, error.source) }),
+      );
       setData(payload);
+      setLoadedReportId(code);
+      const pulls = payload.selection?.fightIds.length ?? 0;
       setStatus({
         kind: "success",
-        message: `Loaded ${payload.players.length} player${payload.players.length === 1 ? "" : "s"}.`,
+        message: payload.selection
+          ? `Compared ${pulls} pull${pulls === 1 ? "" : "s"} against the full report.`
+          : `Loaded ${payload.players.length} player${payload.players.length === 1 ? "" : "s"}.`,
       });
     } catch (error) {
       setStatus({
@@ -58,14 +120,67 @@ function DefensiveUsagePage() {
     }
   };
 
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!reportId.trim()) {
+      setStatus({ kind: "error", message: "Enter a report ID or URL." });
+      return;
+    }
+    setFightFilter({});
+    setPlayerFilter({});
+    timelineRequestRef.current += 1;
+    setTimelineFightId(null);
+    setTimelineData(null);
+    await loadUsage(reportId.trim(), null);
+  };
+
+  const handleTimelineFight = async (fightId: number | null) => {
+    const request = ++timelineRequestRef.current;
+    const isCurrent = () => request === timelineRequestRef.current;
+    setTimelineFightId(fightId);
+    setTimelineData(null);
+    if (fightId == null || !loadedReportId) {
+      setTimelineStatus("");
+      return;
+    }
+    setTimelineStatus("Loading defensive casts and deaths…");
+    try {
+      const payload = await retryWhenRateLimited(
+        () => fetchDefensiveTimeline(loadedReportId, fightId),
+        (secondsLeft, error) => {
+          if (isCurrent()) setTimelineStatus(describeRateLimitWait(secondsLeft, error.source));
+        },
+      );
+      if (!isCurrent()) return;
+      setTimelineData(payload);
+      setTimelineStatus(payload.warnings?.join(" ") ?? "");
+    } catch (error) {
+      if (!isCurrent()) return;
+      setTimelineStatus(error instanceof Error ? error.message : "Failed to load defensive timeline.");
+    }
+  };
+
+  const handleApplyFilter = () => {
+    if (loadedReportId && hasDefensiveFightFilter(fightFilter)) {
+      void loadUsage(loadedReportId, fightFilter);
+    }
+  };
+
+  const handleClearFilter = () => {
+    setFightFilter({});
+    if (loadedReportId && selection) {
+      void loadUsage(loadedReportId, null);
+    }
+  };
+
   return (
     <section className="space-y-8">
       <div className="grid gap-6 lg:grid-cols-3">
         <div className="rounded-3xl border border-white/5 bg-slate-950/80 p-6 shadow-xl shadow-black/50">
           <h2 className="text-xl font-semibold">Defensive usage</h2>
           <p className="mt-1 text-sm text-slate-400">
-            Paste any Warcraft Logs report ID to see casts vs. potential uses for key defensives. Tanks are
-            filtered out automatically.
+            Paste any Warcraft Logs report ID to see casts vs. potential uses for key defensives, grouped by
+            role.
           </p>
           <form className="mt-5 space-y-4" onSubmit={handleSubmit}>
             <label className="block text-sm text-slate-200">
@@ -111,17 +226,15 @@ function DefensiveUsagePage() {
                 </span>
               </div>
               {!!data.fights.length && (
-                <div className="flex flex-wrap gap-2 text-xs text-slate-300">
-                  {data.fights.map((fight) => (
-                    <span
-                      key={`fight-${fight.id}`}
-                      className="rounded-full border border-slate-800/40 bg-slate-900/60 px-3 py-1"
-                    >
-                      {fight.name} · {formatFightDuration(fight.duration)}
-                      {fight.kill ? " · Kill" : ""}
-                    </span>
-                  ))}
-                </div>
+                <DefensiveFightPicker
+                  fights={data.fights}
+                  filter={fightFilter}
+                  appliedFightIds={selection?.fightIds ?? null}
+                  loading={loading}
+                  onChange={setFightFilter}
+                  onApply={handleApplyFilter}
+                  onClear={handleClearFilter}
+                />
               )}
             </div>
           ) : (
@@ -140,19 +253,146 @@ function DefensiveUsagePage() {
                 <div className="flex flex-wrap items-center justify-between gap-2">
                   <h3 className="text-base font-semibold text-slate-100">Teamwide defensive usage</h3>
                   <p className="text-xs text-slate-400">
-                    Shows total casts vs. potential casts for every defensive in scope.
+                    Shows total casts vs. potential casts for every defensive in scope
+                    {selection ? ", with the selected pulls underneath." : "."}
                   </p>
                 </div>
-                <div className="mt-4 grid gap-3 md:grid-cols-2 xl:grid-cols-3">
-                  {data.abilities.map((ability) => (
-                    <AggregatedAbilityCard key={`${ability.id ?? ability.name}`} ability={ability} />
-                  ))}
-                </div>
+                {groupAbilitiesByCategory(data.abilities).map((group) => (
+                  <div key={`team-${group.category ?? "other"}`} className="mt-4">
+                    <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">{group.label}</p>
+                    <div className="mt-2 grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+                      {group.abilities.map((ability) => (
+                        <AggregatedAbilityCard
+                          key={`${ability.id ?? ability.name}`}
+                          ability={ability}
+                          selected={selection ? findDefensiveAbility(selection.abilities, ability) : undefined}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
               </section>
             ) : null}
-            {data.players.map((player) => (
-              <DefensivePlayerCard key={`${player.id ?? player.name}`} player={player} />
-            ))}
+            <section className="rounded-3xl border border-white/5 bg-slate-950/70 p-5 shadow-xl shadow-black/40">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-base font-semibold text-slate-100">Defensive timing</h3>
+                <select
+                  value={timelineFightId ?? ""}
+                  onChange={(event) =>
+                    void handleTimelineFight(event.target.value ? Number(event.target.value) : null)
+                  }
+                  className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-xs text-slate-200"
+                >
+                  <option value="">Pick a pull…</option>
+                  {data.fights.map((fight, index) =>
+                    fight.id != null ? (
+                      <option key={`timeline-${fight.id}`} value={fight.id}>
+                        #{index + 1} {fight.name} · {formatFightDuration(fight.duration)}
+                        {fight.kill ? " · Kill" : ""}
+                      </option>
+                    ) : null,
+                  )}
+                </select>
+              </div>
+              <p className="mt-1 text-xs text-slate-400">
+                Defensive casts and deaths of one pull. Each death notes what was pressed just before it and
+                which defensives were still off cooldown.
+              </p>
+              {timelineStatus && <p className="mt-2 text-xs text-slate-300">{timelineStatus}</p>}
+              {timeline && timelineFightId != null && (
+                <div className="mt-4">
+                  <DefensiveTimelinePanel
+                    timeline={timeline}
+                    canOpenReview={Boolean(onOpenInReview)}
+                    onOpen={(offsetSeconds) =>
+                      onOpenInReview?.({ reportId: loadedReportId, fightId: timelineFightId, offsetSeconds })
+                    }
+                  />
+                </div>
+              )}
+            </section>
+            <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-slate-800/60 bg-slate-950/50 p-4 text-xs text-slate-300">
+              <p className="font-semibold uppercase tracking-[0.2em] text-slate-500">Players</p>
+              <select
+                value={playerFilter.role ?? ""}
+                onChange={(event) =>
+                  setPlayerFilter({ ...playerFilter, role: (event.target.value as DefensiveRole) || undefined })
+                }
+                className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-slate-200"
+              >
+                <option value="">Every role</option>
+                {(Object.keys(DEFENSIVE_ROLE_LABELS) as DefensiveRole[]).map((role) => (
+                  <option key={`role-${role}`} value={role}>
+                    {DEFENSIVE_ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={playerFilter.className ?? ""}
+                onChange={(event) =>
+                  setPlayerFilter({ role: playerFilter.role, className: event.target.value || undefined })
+                }
+                className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-slate-200"
+              >
+                <option value="">Every class</option>
+                {classOptions.map((className) => (
+                  <option key={`class-${className}`} value={className}>
+                    {className}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={playerFilter.specName ?? ""}
+                onChange={(event) =>
+                  setPlayerFilter({ ...playerFilter, specName: event.target.value || undefined })
+                }
+                className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-slate-200"
+              >
+                <option value="">Every spec</option>
+                {specOptions.map((specName) => (
+                  <option key={`spec-${specName}`} value={specName}>
+                    {specName}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2">
+                Sort by
+                <select
+                  value={playerSort}
+                  onChange={(event) => setPlayerSort(event.target.value as DefensivePlayerSort)}
+                  className="rounded-lg border border-slate-800 bg-slate-950 px-2 py-1 text-slate-200"
+                >
+                  <option value="uses">Total uses</option>
+                  <option value="coverage">Coverage %</option>
+                  <option value="name">Name</option>
+                </select>
+              </label>
+            </div>
+            {roleGroups.length ? (
+              roleGroups.map((group) => (
+                <div key={`role-${group.role ?? "unknown"}`} className="space-y-4">
+                  <div>
+                    <h3 className="text-base font-semibold text-slate-100">{group.label}</h3>
+                    {group.role === "tank" && (
+                      <p className="mt-1 text-xs text-slate-400">
+                        Active mitigation comes first, followed by tank cooldowns and other defensives.
+                      </p>
+                    )}
+                  </div>
+                  {group.players.map((player) => (
+                    <DefensivePlayerCard
+                      key={`${player.id ?? player.name}`}
+                      player={player}
+                      selected={selection ? findDefensivePlayer(selection.players, player) : undefined}
+                    />
+                  ))}
+                </div>
+              ))
+            ) : (
+              <p className="rounded-2xl border border-dashed border-slate-700/70 bg-slate-950/50 px-6 py-8 text-center text-sm text-slate-400">
+                No players match these filters.
+              </p>
+            )}
           </div>
         ) : (
           <p className="rounded-2xl border border-dashed border-slate-700/70 bg-slate-950/50 px-6 py-8 text-center text-sm text-slate-400">
@@ -165,6 +405,8 @@ function DefensiveUsagePage() {
           to help you spot missed cooldowns. Use it alongside the VOD review workspace for deeper analysis.
         </p>
       )}
+
+      <DefensiveTrendsPanel />
     </section>
   );
 }
@@ -173,11 +415,14 @@ export default DefensiveUsagePage;
 
 interface DefensivePlayerCardProps {
   player: DefensivePlayerUsage;
+  /** Row for the selected pulls: null if they cast nothing there, undefined when nothing is selected. */
+  selected?: DefensivePlayerUsage | null;
 }
 
-function DefensivePlayerCard({ player }: DefensivePlayerCardProps) {
+function DefensivePlayerCard({ player, selected }: DefensivePlayerCardProps) {
   const classColor = getClassColor(player.className);
   const subtitle = [player.specName, player.className].filter(Boolean).join(" • ");
+  const coverage = getDefensiveCoverage(player);
   return (
     <article className="rounded-3xl border border-white/5 bg-slate-950/70 p-5 shadow-xl shadow-black/40">
       <div className="flex flex-wrap items-start justify-between gap-4">
@@ -190,31 +435,49 @@ function DefensivePlayerCard({ player }: DefensivePlayerCardProps) {
         </div>
         <div className="text-right text-sm text-slate-300">
           <p className="font-semibold text-slate-100">
-            {player.totalUses}
-            {player.maxPossibleUses > 0 ? ` / ${player.maxPossibleUses}` : ""} use
-            {player.totalUses === 1 ? "" : "s"}
+            {player.totalUses} use{player.totalUses === 1 ? "" : "s"}
           </p>
-          {player.maxPossibleUses > 0 && (
-            <p className="text-xs text-slate-400">
-              {Math.min(100, Math.round((player.totalUses / player.maxPossibleUses) * 100))}% potential coverage
+          {coverage != null && (
+            <p className="text-xs text-slate-400" title={player.possibleFormula ?? undefined}>
+              {getCoverageUses(player)}/{player.maxPossibleUses} • {Math.round(coverage * 100)}% potential coverage
+            </p>
+          )}
+          {selected !== undefined && (
+            <p className="mt-1 text-xs text-indigo-200" title={selected?.possibleFormula ?? undefined}>
+              Selected pulls:{" "}
+              {describeUsage(selected ? getCoverageUses(selected) : 0, selected?.maxPossibleUses ?? 0)}
             </p>
           )}
         </div>
       </div>
-      <div className="mt-4 grid gap-3 md:grid-cols-2 lg:grid-cols-3">
-        {player.abilities.map((ability) => (
-          <AbilityUsageRow key={`${player.id ?? player.name}-${ability.id ?? ability.name}`} ability={ability} />
-        ))}
-      </div>
+      {groupAbilitiesByCategory(player.abilities).map((group) => (
+        <div key={`${player.id ?? player.name}-${group.category ?? "other"}`} className="mt-4">
+          <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">{group.label}</p>
+          <div className="mt-2 grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {group.abilities.map((ability) => (
+              <AbilityUsageRow
+                key={`${player.id ?? player.name}-${ability.id ?? ability.name}`}
+                ability={ability}
+                selected={
+                  selected !== undefined
+                    ? (selected && findDefensiveAbility(selected.abilities, ability)) ?? null
+                    : undefined
+                }
+              />
+            ))}
+          </div>
+        </div>
+      ))}
     </article>
   );
 }
 
 interface AbilityUsageRowProps {
   ability: DefensivePlayerUsage["abilities"][number];
+  selected?: DefensiveAbilityUsage | null;
 }
 
-function AbilityUsageRow({ ability }: AbilityUsageRowProps) {
+function AbilityUsageRow({ ability, selected }: AbilityUsageRowProps) {
   const iconUrl = getAbilityIconUrl(ability.icon);
   const percent = ability.possible > 0 ? Math.min(100, Math.round((ability.uses / ability.possible) * 100)) : null;
   const ratioText = ability.possible > 0 ? `${ability.uses}/${ability.possible}` : `${ability.uses}`;
@@ -234,18 +497,31 @@ function AbilityUsageRow({ ability }: AbilityUsageRowProps) {
       )}
       <div className="flex-1">
         <p className="text-sm font-semibold text-slate-100">{ability.name}</p>
-        <p className="text-xs text-slate-400">{percent != null ? `Used ${ratioText} • ${percent}%` : `${ratioText} use${ability.uses === 1 ? "" : "s"}`}</p>
+        <p className="text-xs text-slate-400" title={ability.possibleFormula ?? undefined}>
+          {percent != null ? `Used ${ratioText} • ${percent}%` : `${ratioText} use${ability.uses === 1 ? "" : "s"}`}
+        </p>
         {percent != null && (
           <div className="mt-2 h-1.5 rounded-full bg-slate-900">
             <div className="h-full rounded-full bg-emerald-400" style={{ width: `${percent}%` }}></div>
           </div>
         )}
+        {selected !== undefined && (
+          <p className="mt-1 text-xs text-indigo-200" title={selected?.possibleFormula ?? undefined}>
+            Selected: {describeUsage(selected?.uses ?? 0, selected?.possible ?? 0)}
+          </p>
+        )}
       </div>
     </div>
   );
 }
 
-function AggregatedAbilityCard({ ability }: { ability: DefensiveAbilityUsage }) {
+function AggregatedAbilityCard({
+  ability,
+  selected,
+}: {
+  ability: DefensiveAbilityUsage;
+  selected?: DefensiveAbilityUsage | null;
+}) {
   const iconUrl = getAbilityIconUrl(ability.icon);
   const displayPercent = ability.possible > 0 ? Math.min(100, Math.round((ability.uses / ability.possible) * 100)) : null;
   const ratioLabel = ability.possible > 0 ? `${ability.uses}/${ability.possible}` : `${ability.uses}`;
@@ -260,12 +536,21 @@ function AggregatedAbilityCard({ ability }: { ability: DefensiveAbilityUsage })
       )}
       <div className="flex-1">
         <p className="text-sm font-semibold text-slate-100">{ability.name}</p>
-        <p className="text-xs text-slate-400">{displayPercent != null ? `Used ${ratioLabel} • ${displayPercent}%` : `${ratioLabel} use${ability.uses === 1 ? "" : "s"}`}</p>
+        <p className="text-xs text-slate-400" title={ability.possibleFormula ?? undefined}>
+          {displayPercent != null
+            ? `Used ${ratioLabel} • ${displayPercent}%`
+            : `${ratioLabel} use${ability.uses === 1 ? "" : "s"}`}
+        </p>
         {displayPercent != null && (
           <div className="mt-2 h-1.5 rounded-full bg-slate-900">
             <div className="h-full rounded-full bg-indigo-400" style={{ width: `${displayPercent}%` }}></div>
           </div>
         )}
+        {selected !== undefined && (
+          <p className="mt-1 text-xs text-indigo-200" title={selected?.possibleFormula ?? undefined}>
+            Selected: {describeUsage(selected?.uses ?? 0, selected?.possible ?? 0)}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -286,11 +571,26 @@ function buildReportSubtitle(report: ReportMeta | null): string {
   return parts.join(" • ");
 }
 
+function collectOptions(
+  players: DefensivePlayerUsage[],
+  read: (player: DefensivePlayerUsage) => string | null,
+): string[] {
+  const values = new Set(players.map(read).filter((value): value is string => Boolean(value)));
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+}
+
 function formatFightDuration(duration: number | null): string {
   if (!duration || duration <= 0) return "00:00";
   return formatDuration(Math.round(duration / 1000));
 }
 
+function describeUsage(uses: number, possible: number): string {
+  if (possible <= 0) {
+    return `${uses} use${uses === 1 ? "" : "s"}`;
+  }
+  return `${uses}/${possible} • ${Math.min(100, Math.round((uses / possible) * 100))}%`;
+}
+
 function getAbilityIconUrl(icon: string | null): string | null {
   if (!icon) {
     return null;
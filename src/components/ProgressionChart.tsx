@@ -0,0 +1,150 @@
+import { useMemo } from "react";
+import { buildBossProgression, type ProgressionPoint } from "../lib/progression";
+import { formatDuration, type FightRow } from "../lib/logtime";
+
+interface ProgressionChartProps {
+  bossName: string;
+  fights: FightRow[];
+  hasVideo: boolean;
+  onJump: (videoSeconds: number) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD_X = 28;
+const PAD_Y = 16;
+
+function ProgressionChart({ bossName, fights, hasVideo, onJump }: ProgressionChartProps) {
+  const progression = useMemo(() => buildBossProgression(bossName, fights), [bossName, fights]);
+  const { points, bestPull, nights } = progression;
+  const maxDuration = Math.max(1, ...points.map((point) => point.durationSeconds));
+  const plotWidth = WIDTH - PAD_X * 2;
+  const plotHeight = HEIGHT - PAD_Y * 2;
+
+  if (!points.length) {
+    return null;
+  }
+
+  const getX = (index: number) =>
+    points.length === 1 ? WIDTH / 2 : PAD_X + (index / (points.length - 1)) * plotWidth;
+  // Boss health runs from 100% at the top to 0% (a kill) at the bottom.
+  const getY = (hpLeft: number) => PAD_Y + (1 - hpLeft / 100) * plotHeight;
+  const barWidth = Math.max(2, Math.min(14, plotWidth / points.length - 2));
+  const linePath = points
+    .map((point, index) => ({ point, index }))
+    .filter(({ point }) => point.bossHpLeft != null)
+    .map(({ point, index }, order) => `${order === 0 ? "M" : "L"}${getX(index)},${getY(point.bossHpLeft!)}`)
+    .join(" ");
+  const best = points.find((point) => point.pull === bestPull) ?? null;
+  const bestSummary = best ? ` · best ${describePoint(best)}` : "";
+
+  return (
+    <div className="mt-4 space-y-3 border-t border-slate-800 pt-4 text-xs text-slate-300">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-slate-400">
+        <span>{`${points.length} pulls${bestSummary}`}</span>
+        <span className="text-slate-500">Bars show pull duration</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={`${bossName} progression`}>
+        {[0, 25, 50, 75, 100].map((tick) => (
+          <g key={`tick-${tick}`}>
+            <line x1={PAD_X} x2={WIDTH - PAD_X} y1={getY(tick)} y2={getY(tick)} className="stroke-slate-800" />
+            <text x={PAD_X - 4} y={getY(tick) + 3} textAnchor="end" className="fill-slate-500 text-[9px]">
+              {tick}%
+            </text>
+          </g>
+        ))}
+        {points.map((point, index) => {
+          const height = (point.durationSeconds / maxDuration) * plotHeight;
+          return (
+            <rect
+              key={`duration-${point.pull}`}
+              x={getX(index) - barWidth / 2}
+              y={PAD_Y + plotHeight - height}
+              width={barWidth}
+              height={height}
+              onClick={() => hasVideo && onJump(point.videoSeconds)}
+              className={`fill-slate-700/40 ${hasVideo ? "cursor-pointer hover:fill-slate-600/60" : ""}`}
+            >
+              <title>{describePoint(point)}</title>
+            </rect>
+          );
+        })}
+        {points.map((point, index) => {
+          const previous = points[index - 1];
+          if (!previous || previous.night === point.night) return null;
+          const x = (getX(index - 1) + getX(index)) / 2;
+          return (
+            <g key={`night-${point.night}`}>
+              <line x1={x} x2={x} y1={PAD_Y} y2={HEIGHT - PAD_Y} strokeDasharray="3 3" className="stroke-slate-600" />
+              <text x={x + 3} y={PAD_Y + 8} className="fill-slate-500 text-[9px]">
+                Night {point.night}
+              </text>
+            </g>
+          );
+        })}
+        {linePath && <path d={linePath} fill="none" className="stroke-amber-200/60" strokeWidth={1.5} />}
+        {points.map((point, index) => {
+          if (point.bossHpLeft == null) return null;
+          const isBest = point.pull === bestPull;
+          return (
+            <circle
+              key={`point-${point.pull}`}
+              cx={getX(index)}
+              cy={getY(point.bossHpLeft)}
+              r={isBest ? 6 : 3.5}
+              onClick={() => hasVideo && onJump(point.videoSeconds)}
+              className={`${getPointClass(point)} ${isBest ? "stroke-white" : "stroke-slate-950"} ${
+                hasVideo ? "cursor-pointer" : ""
+              }`}
+              strokeWidth={isBest ? 2 : 1}
+            >
+              <title>{describePoint(point)}</title>
+            </circle>
+          );
+        })}
+      </svg>
+      {nights.length > 1 && (
+        <table className="w-full border-collapse text-left">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="py-1 pr-3 font-medium">Night</th>
+              <th className="py-1 pr-3 font-medium">Pulls</th>
+              <th className="py-1 pr-3 font-medium">Kills</th>
+              <th className="py-1 font-medium">Best</th>
+            </tr>
+          </thead>
+          <tbody>
+            {nights.map((night) => (
+              <tr key={`night-row-${night.night}`} className="border-t border-slate-900">
+                <td className="py-1 pr-3">
+                  {night.night}
+                  {night.reportCode && <span className="ml-2 font-mono text-slate-500">{night.reportCode}</span>}
+                </td>
+                <td className="py-1 pr-3">{night.pullCount}</td>
+                <td className="py-1 pr-3 text-emerald-300">{night.kills}</td>
+                <td className="py-1">{night.bestHpLeft != null ? `${night.bestHpLeft.toFixed(1)}%` : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default ProgressionChart;
+
+function getPointClass(point: ProgressionPoint): string {
+  if (point.kill) return "fill-emerald-400";
+  if (point.phase.startsWith("I")) return "fill-fuchsia-300";
+  return "fill-amber-200";
+}
+
+function describePoint(point: ProgressionPoint): string {
+  const result = point.kill
+    ? "Kill"
+    : point.bossHpLeft != null
+      ? `${point.bossHpLeft.toFixed(1)}% left`
+      : "No health data";
+  return `Pull #${point.pull} · ${result} · ${point.phase} · ${formatDuration(point.durationSeconds)}`;
+}
@@ -5,55 +5,220 @@ import {
   useId,
   useImperativeHandle,
   useRef,
+  useState,
 } from "react";
 import type { VideoSource } from "../lib/video";
+import { formatDuration } from "../lib/logtime";
 
 export interface VideoPlayerHandle {
   seekTo(seconds: number): void;
   getCurrentTime(): number;
+  getPlaybackPosition(): PlaybackPosition | null;
   togglePlayback(): void;
 }
 
+/** Where the playhead sits inside the active file, before any timeline mapping. */
+export interface PlaybackPosition {
+  partIndex: number;
+  localSeconds: number;
+}
+
+/**
+ * One file of a POV. Timeline seconds are the review clock shared by every POV; each part converts
+ * them to and from its own file position.
+ */
+export interface VideoPlayerPart {
+  source: VideoSource;
+  toLocalSeconds(timelineSeconds: number): number;
+  toTimelineSeconds(localSeconds: number): number;
+  /** WebVTT captions on this file's clock, shown on html5 sources. */
+  captions?: string | null;
+}
+
 interface VideoPlayerProps {
-  source?: VideoSource | null;
+  parts?: VideoPlayerPart[] | null;
   className?: string;
   startSeconds?: number;
   seekRevision?: number;
 }
 
+interface FootageGap {
+  timelineSeconds: number;
+  resumeSeconds: number;
+}
+
+interface PartLocation {
+  index: number;
+  localSeconds: number;
+  gap: FootageGap | null;
+}
+
 const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
-  ({ source, className, startSeconds = 0, seekRevision = 0 }, ref) => {
+  ({ parts, className, startSeconds = 0, seekRevision = 0 }, ref) => {
     const htmlVideoRef = useRef<HTMLVideoElement | null>(null);
     const youtubePlayerRef = useRef<YT.Player | null>(null);
     const containerId = useId();
     const pendingSeekRef = useRef<number | null>(null);
     const htmlMetadataListener = useRef<(() => void) | null>(null);
+    const partsRef = useRef<VideoPlayerPart[]>([]);
+    const durationsRef = useRef(new WeakMap<VideoSource, number>());
+    const gapRef = useRef<FootageGap | null>(null);
+    const [activePartIndex, setActivePartIndex] = useState(0);
+    const [gap, setGap] = useState<FootageGap | null>(null);
+
+    partsRef.current = parts ?? [];
+    const resolvedPartIndex = Math.min(activePartIndex, Math.max(0, partsRef.current.length - 1));
+    const activePart = partsRef.current[resolvedPartIndex] ?? null;
+    const source = activePart?.source ?? null;
+    const activePartRef = useRef<VideoPlayerPart | null>(null);
+    activePartRef.current = activePart;
+    const sourceRef = useRef<VideoSource | null>(null);
+    sourceRef.current = source;
+    const loadedYoutubeIdRef = useRef<string | null>(null);
+    const captions = source?.kind === "html5" ? activePart?.captions ?? null : null;
+    const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+      if (!captions) {
+        setCaptionsUrl(null);
+        return;
+      }
+      const url = URL.createObjectURL(new Blob([captions], { type: "text/vtt" }));
+      setCaptionsUrl(url);
+      return () => URL.revokeObjectURL(url);
+    }, [captions]);
+
+    const updateGap = useCallback((next: FootageGap | null) => {
+      gapRef.current = next;
+      setGap(next);
+    }, []);
+
+    const rememberDuration = useCallback((partSource: VideoSource | null, duration: number | undefined) => {
+      if (partSource && typeof duration === "number" && Number.isFinite(duration) && duration > 0) {
+        durationsRef.current.set(partSource, duration);
+      }
+    }, []);
+
+    const locatePart = useCallback((timelineSeconds: number): PartLocation => {
+      const list = partsRef.current;
+      if (!list.length) {
+        return { index: 0, localSeconds: Math.max(0, timelineSeconds), gap: null };
+      }
+      // The last part that has already started owns the moment; before the first part we clamp to it.
+      let index = 0;
+      list.forEach((part, partIndex) => {
+        if (part.toLocalSeconds(timelineSeconds) >= 0) {
+          index = partIndex;
+        }
+      });
+      const part = list[index];
+      const localSeconds = Math.max(0, part.toLocalSeconds(timelineSeconds));
+      const duration = durationsRef.current.get(part.source);
+      const nextPart = list[index + 1];
+      if (nextPart && duration != null && localSeconds > duration) {
+        return {
+          index: index + 1,
+          localSeconds: 0,
+          gap: { timelineSeconds, resumeSeconds: nextPart.toTimelineSeconds(0) },
+        };
+      }
+      return { index, localSeconds, gap: null };
+    }, []);
+
+    const pauseActive = useCallback(() => {
+      if (htmlVideoRef.current) {
+        htmlVideoRef.current.pause();
+      }
+      youtubePlayerRef.current?.pauseVideo?.();
+    }, []);
+
+    const seekLocal = useCallback(
+      (seconds: number, autoplay: boolean) => {
+        if (!source) return;
+        if (source.kind === "html5" && htmlVideoRef.current) {
+          htmlVideoRef.current.currentTime = seconds;
+          if (autoplay) {
+            void htmlVideoRef.current.play();
+          }
+        } else if (source.kind === "youtube" && youtubePlayerRef.current) {
+          youtubePlayerRef.current.seekTo(seconds, true);
+          if (autoplay) {
+            youtubePlayerRef.current.playVideo();
+          }
+        }
+      },
+      [source],
+    );
+
+    const readLocalTime = useCallback(() => {
+      if (source?.kind === "html5" && htmlVideoRef.current) {
+        return htmlVideoRef.current.currentTime;
+      }
+      if (source?.kind === "youtube" && youtubePlayerRef.current) {
+        return youtubePlayerRef.current.getCurrentTime?.() ?? 0;
+      }
+      return 0;
+    }, [source]);
+
+    const seekTimeline = useCallback(
+      (timelineSeconds: number, autoplay: boolean) => {
+        const location = locatePart(timelineSeconds);
+        updateGap(location.gap);
+        if (location.index !== resolvedPartIndex) {
+          pendingSeekRef.current = location.localSeconds;
+          setActivePartIndex(location.index);
+          return;
+        }
+        if (location.gap) {
+          seekLocal(location.localSeconds, false);
+          pauseActive();
+          return;
+        }
+        seekLocal(location.localSeconds, autoplay);
+      },
+      [locatePart, pauseActive, resolvedPartIndex, seekLocal, updateGap],
+    );
+    const seekTimelineRef = useRef(seekTimeline);
+    seekTimelineRef.current = seekTimeline;
+
+    const advanceToNextPart = useCallback(() => {
+      const list = partsRef.current;
+      const current = list[resolvedPartIndex];
+      const next = list[resolvedPartIndex + 1];
+      if (!current || !next) return;
+      const duration = durationsRef.current.get(current.source);
+      const endTimeline = current.toTimelineSeconds(duration ?? 0);
+      updateGap(null);
+      pendingSeekRef.current = Math.max(0, next.toLocalSeconds(endTimeline));
+      setActivePartIndex(resolvedPartIndex + 1);
+    }, [resolvedPartIndex, updateGap]);
 
     useImperativeHandle(
       ref,
       () => ({
         seekTo(seconds: number) {
-          if (!source) return;
-          if (source.kind === "html5" && htmlVideoRef.current) {
-            htmlVideoRef.current.currentTime = seconds;
-            void htmlVideoRef.current.play();
-          } else if (source.kind === "youtube" && youtubePlayerRef.current) {
-            youtubePlayerRef.current.seekTo(seconds, true);
-            youtubePlayerRef.current.playVideo();
-          }
+          seekTimeline(seconds, true);
         },
         getCurrentTime() {
-          if (!source) return 0;
-          if (source.kind === "html5" && htmlVideoRef.current) {
-            return htmlVideoRef.current.currentTime;
+          if (gapRef.current) {
+            return gapRef.current.timelineSeconds;
           }
-          if (source.kind === "youtube" && youtubePlayerRef.current) {
-            return youtubePlayerRef.current.getCurrentTime?.() ?? 0;
-          }
-          return 0;
+          const part = activePartRef.current;
+          if (!source || !part) return 0;
+          return part.toTimelineSeconds(readLocalTime());
+        },
+        getPlaybackPosition() {
+          if (!source || gapRef.current) return null;
+          return { partIndex: resolvedPartIndex, localSeconds: readLocalTime() };
         },
         togglePlayback() {
           if (!source) return;
+          if (gapRef.current) {
+            // Pressing play inside a gap resumes at the start of the next file.
+            updateGap(null);
+            seekLocal(0, true);
+            return;
+          }
           if (source.kind === "html5" && htmlVideoRef.current) {
             if (htmlVideoRef.current.paused) {
               void htmlVideoRef.current.play();
@@ -76,7 +241,7 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
           }
         },
       }),
-      [source],
+      [readLocalTime, resolvedPartIndex, seekLocal, seekTimeline, source, updateGap],
     );
 
     const applyPendingSeek = useCallback(() => {
@@ -93,6 +258,9 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
           if (video) {
             video.currentTime = target;
             pendingSeekRef.current = null;
+            if (gapRef.current) {
+              video.pause();
+            }
           }
         };
         if (video.readyState >= 1) {
@@ -108,16 +276,25 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
           video.addEventListener("loadedmetadata", handler);
         }
       } else if (source.kind === "youtube" && youtubePlayerRef.current) {
+        // A different part is still loading; the load call below starts it at the pending time.
+        if (loadedYoutubeIdRef.current !== source.videoId) return;
         youtubePlayerRef.current.seekTo(target, true);
         pendingSeekRef.current = null;
+        if (gapRef.current) {
+          youtubePlayerRef.current.pauseVideo();
+        }
       }
     }, [source]);
 
     useEffect(() => {
-      if (!source) return;
-      pendingSeekRef.current = startSeconds ?? 0;
+      if (!partsRef.current.length) return;
+      // Only explicit seek requests move the playhead; part switches apply their own pending seek.
+      seekTimelineRef.current(startSeconds ?? 0, false);
+    }, [startSeconds, seekRevision]);
+
+    useEffect(() => {
       applyPendingSeek();
-    }, [source, startSeconds, seekRevision, applyPendingSeek]);
+    }, [applyPendingSeek]);
 
     useEffect(() => {
       return () => {
@@ -132,18 +309,23 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
       };
     }, []);
 
+    const advanceRef = useRef(advanceToNextPart);
+    advanceRef.current = advanceToNextPart;
+
     useEffect(() => {
       if (source?.kind !== "youtube") {
         if (youtubePlayerRef.current) {
           youtubePlayerRef.current.destroy();
           youtubePlayerRef.current = null;
         }
+        loadedYoutubeIdRef.current = null;
         return;
       }
       let cancelled = false;
       void ensureYoutubeApi().then(() => {
         if (cancelled) return;
         if (!youtubePlayerRef.current) {
+          loadedYoutubeIdRef.current = source.videoId;
           youtubePlayerRef.current = new window.YT.Player(containerId, {
             width: "100%",
             height: "100%",
@@ -158,21 +340,37 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
               onReady: () => {
                 applyPendingSeek();
               },
+              onStateChange: (event) => {
+                if (event.data === window.YT.PlayerState.PLAYING) {
+                  rememberDuration(sourceRef.current, event.target.getDuration?.());
+                } else if (event.data === window.YT.PlayerState.ENDED) {
+                  rememberDuration(sourceRef.current, event.target.getDuration?.());
+                  advanceRef.current();
+                }
+              },
             },
           });
+        } else if (loadedYoutubeIdRef.current !== source.videoId) {
+          const target = pendingSeekRef.current ?? 0;
+          pendingSeekRef.current = null;
+          loadedYoutubeIdRef.current = source.videoId;
+          if (gapRef.current) {
+            youtubePlayerRef.current.cueVideoById(source.videoId, target);
+          } else {
+            youtubePlayerRef.current.loadVideoById(source.videoId, target);
+          }
         } else {
-          youtubePlayerRef.current.loadVideoById(source.videoId);
           applyPendingSeek();
         }
       });
       return () => {
         cancelled = true;
       };
-    }, [source, containerId, applyPendingSeek]);
+    }, [source, containerId, applyPendingSeek, rememberDuration]);
 
     return (
       <div className={className || ""}>
-        <div className="aspect-video w-full overflow-hidden bg-black">
+        <div className="relative aspect-video w-full overflow-hidden bg-black">
           {source ? (
             source.kind === "youtube" ? (
               <div id={containerId} className="aspect-video w-full"></div>
@@ -181,8 +379,14 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
                 ref={htmlVideoRef}
                 src={source.url}
                 controls
+                onLoadedMetadata={(event) => rememberDuration(source, event.currentTarget.duration)}
+                onEnded={() => advanceToNextPart()}
                 className="h-full w-full rounded-xl"
-              />
+              >
+                {captionsUrl && (
+                  <track key={captionsUrl} kind="captions" src={captionsUrl} srcLang="en" label="Fight events" default />
+                )}
+              </video>
             )
           ) : (
             <div className="flex h-full flex-col items-center justify-center gap-2 p-6 text-center text-slate-400">
@@ -190,7 +394,21 @@ const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(
               <p className="text-xs text-slate-500">Video controls will unlock once a player is ready.</p>
             </div>
           )}
+          {gap && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-slate-950/90 text-center text-slate-300">
+              <p className="text-sm font-semibold uppercase tracking-[0.2em] text-slate-400">No footage</p>
+              <p className="text-xs text-slate-500">
+                This POV has a gap between files here. Footage resumes in{" "}
+                {formatDuration(Math.max(0, gap.resumeSeconds - gap.timelineSeconds))}.
+              </p>
+            </div>
+          )}
         </div>
+        {partsRef.current.length > 1 && (
+          <p className="mt-2 text-xs text-slate-500">
+            Part {resolvedPartIndex + 1} of {partsRef.current.length}
+          </p>
+        )}
       </div>
     );
   },
@@ -0,0 +1,37 @@
+export interface AccessState {
+  /** True when the proxy only serves callers with an API key or the team password. */
+  required: boolean;
+  granted: boolean;
+  /** Key name the proxy knows this browser by ("team" for the shared password). */
+  name: string | null;
+  methods: { keys: boolean; password: boolean };
+}
+
+export async function fetchAccessState(): Promise<AccessState> {
+  const response = await fetch("/api/access");
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to read access state (${response.status} ${response.statusText}): ${text || "No details"}`);
+  }
+  return (await response.json()) as AccessState;
+}
+
+/** Sends the team password or an API key; the proxy remembers a valid one in a cookie. */
+export async function unlockAccess(secret: string): Promise<AccessState> {
+  const response = await fetch("/api/access", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ secret }),
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      message = (JSON.parse(text) as { error?: string }).error ?? text;
+    } catch {
+      // plain-text error bodies are shown as they are
+    }
+    throw new Error(message || `Failed to unlock (${response.status} ${response.statusText}).`);
+  }
+  return (await response.json()) as AccessState;
+}
@@ -0,0 +1,28 @@
+export interface AuthSession {
+  loggedIn: boolean;
+  userName: string | null;
+  /** False when the server has no session secret, so user login is switched off. */
+  loginAvailable: boolean;
+}
+
+export async function fetchAuthSession(): Promise<AuthSession> {
+  const response = await fetch("/api/auth/session");
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to read login state (${response.status} ${response.statusText}): ${text || "No details"}`);
+  }
+  return (await response.json()) as AuthSession;
+}
+
+export async function logout(): Promise<void> {
+  const response = await fetch("/api/auth/logout", { method: "POST" });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to sign out (${response.status} ${response.statusText}): ${text || "No details"}`);
+  }
+}
+
+/** Login goes through a full-page redirect to Warcraft Logs and comes back to `returnTo`. */
+export function getLoginUrl(returnTo = `${window.location.pathname}${window.location.search}`): string {
+  return `/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`;
+}
@@ -0,0 +1,76 @@
+import type { SyncAnchor } from "./sync";
+
+/** A pull start marked in the player: the pull's log time next to the video position it was seen at. */
+export interface CalibrationMark {
+  pull: number;
+  logSeconds: number;
+  videoSeconds: number;
+}
+
+export interface CalibrationResidual {
+  pull: number;
+  residualSeconds: number;
+}
+
+export interface CalibrationResult {
+  offsetSeconds: number;
+  driftSecondsPerHour: number | null;
+  residuals: CalibrationResidual[];
+  maxAbsResidualSeconds: number;
+}
+
+export const MIN_CALIBRATION_MARKS = 2;
+
+/**
+ * Fits a constant offset (video time of the first pull) to the marked pulls. Residuals show how far
+ * each mark lands from that offset; a steady trend means the clip drifts or has cuts.
+ */
+export function computeCalibration(marks: CalibrationMark[]): CalibrationResult | null {
+  if (marks.length < MIN_CALIBRATION_MARKS) {
+    return null;
+  }
+  const deltas = marks.map((mark) => mark.videoSeconds - mark.logSeconds);
+  const offsetSeconds = deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length;
+  const residuals = marks.map((mark, index) => ({
+    pull: mark.pull,
+    residualSeconds: deltas[index] - offsetSeconds,
+  }));
+  const maxAbsResidualSeconds = residuals.reduce(
+    (max, entry) => Math.max(max, Math.abs(entry.residualSeconds)),
+    0,
+  );
+  return {
+    offsetSeconds,
+    driftSecondsPerHour: computeDrift(marks, deltas),
+    residuals,
+    maxAbsResidualSeconds,
+  };
+}
+
+export function calibrationToAnchors(
+  result: CalibrationResult,
+  marks: CalibrationMark[],
+  mode: "offset" | "marks",
+): SyncAnchor[] {
+  if (mode === "offset") {
+    return [{ logSeconds: 0, videoSeconds: result.offsetSeconds }];
+  }
+  return marks.map((mark) => ({ logSeconds: mark.logSeconds, videoSeconds: mark.videoSeconds }));
+}
+
+// Least-squares slope of the offset against log time, expressed per hour of log.
+function computeDrift(marks: CalibrationMark[], deltas: number[]): number | null {
+  const meanLog = marks.reduce((sum, mark) => sum + mark.logSeconds, 0) / marks.length;
+  const meanDelta = deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length;
+  let numerator = 0;
+  let denominator = 0;
+  marks.forEach((mark, index) => {
+    const dx = mark.logSeconds - meanLog;
+    numerator += dx * (deltas[index] - meanDelta);
+    denominator += dx * dx;
+  });
+  if (denominator <= 0) {
+    return null;
+  }
+  return (numerator / denominator) * 3600;
+}
@@ -0,0 +1,288 @@
+import type { FightRow } from "./logtime";
+
+export type ChapterFormat = "youtube" | "csv" | "json" | "webvtt" | "edl";
+
+export interface ChapterOptions {
+  /** Title template; see CHAPTER_TEMPLATE_TOKENS for the placeholders. */
+  template?: string;
+  includeTrash?: boolean;
+  /** Maps a global timeline second to a position inside the exported video. */
+  mapSeconds?: (globalSeconds: number) => number;
+  introTitle?: string;
+}
+
+export interface ChapterEntry {
+  startSeconds: number;
+  endSeconds: number;
+  title: string;
+  fight: FightRow | null;
+}
+
+export interface ChapterList {
+  chapters: ChapterEntry[];
+  /** Adjustments made to satisfy the YouTube chapter rules. */
+  fixes: string[];
+  /** Rules that could not be fixed automatically. */
+  issues: string[];
+}
+
+export const DEFAULT_CHAPTER_TEMPLATE = "{boss} - Pull #{pull} - ({result})";
+export const CHAPTER_TEMPLATE_TOKENS = [
+  "boss",
+  "pull",
+  "result",
+  "percent",
+  "progress",
+  "phase",
+  "duration",
+  "deaths",
+  "timestamp",
+] as const;
+export const YOUTUBE_MIN_CHAPTERS = 3;
+export const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+export const CHAPTER_FORMATS: Array<{ id: ChapterFormat; label: string; extension: string; mimeType: string }> = [
+  { id: "youtube", label: "YouTube chapters", extension: "txt", mimeType: "text/plain" },
+  { id: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+  { id: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  { id: "webvtt", label: "WebVTT chapters", extension: "vtt", mimeType: "text/vtt" },
+  { id: "edl", label: "EDL markers (Resolve / Premiere)", extension: "edl", mimeType: "text/plain" },
+];
+
+type ChapterTemplateToken = (typeof CHAPTER_TEMPLATE_TOKENS)[number];
+
+/**
+ * Builds one chapter per pull and applies the YouTube rules: the first chapter starts at 0, chapters
+ * are at least 10 seconds apart and there are at least three of them.
+ */
+export function buildChapters(fights: FightRow[], options: ChapterOptions = {}): ChapterList {
+  const template = options.template?.trim() || DEFAULT_CHAPTER_TEMPLATE;
+  const mapSeconds = options.mapSeconds ?? ((seconds: number) => seconds);
+  const fixes: string[] = [];
+  const issues: string[] = [];
+
+  const entries = fights
+    .filter((fight) => options.includeTrash || !fight.isTrash)
+    .map((fight) => {
+      const startSeconds = Math.round(mapSeconds(fight.videoSeconds));
+      const endSeconds = Math.round(mapSeconds(fight.videoSeconds + fight.durationSeconds));
+      return {
+        startSeconds,
+        endSeconds: Math.max(startSeconds, endSeconds),
+        title: "",
+        fight,
+      };
+    })
+    .filter((entry) => entry.endSeconds > 0)
+    .sort((a, b) => a.startSeconds - b.startSeconds);
+
+  const clipped = entries.filter((entry) => entry.startSeconds < 0).length;
+  entries.forEach((entry) => {
+    entry.startSeconds = Math.max(0, entry.startSeconds);
+    entry.title = renderChapterTitle(template, entry.fight, entry.startSeconds);
+  });
+  if (clipped) {
+    fixes.push(`${clipped} pull${clipped === 1 ? "" : "s"} started before the video and were moved to 00:00.`);
+  }
+
+  const chapters: ChapterEntry[] = [];
+  entries.forEach((entry) => {
+    const previous = chapters[chapters.length - 1];
+    if (!previous) {
+      if (entry.startSeconds > 0 && entry.startSeconds < YOUTUBE_MIN_CHAPTER_SECONDS) {
+        fixes.push(`"${entry.title}" moved to 00:00 so the first chapter starts the video.`);
+        entry.startSeconds = 0;
+      } else if (entry.startSeconds > 0) {
+        fixes.push("Added an intro chapter at 00:00.");
+        chapters.push({
+          startSeconds: 0,
+          endSeconds: entry.startSeconds,
+          title: options.introTitle?.trim() || "Intro",
+          fight: null,
+        });
+      }
+      chapters.push(entry);
+      return;
+    }
+    if (entry.startSeconds - previous.startSeconds >= YOUTUBE_MIN_CHAPTER_SECONDS) {
+      chapters.push(entry);
+      return;
+    }
+    // A pull that follows within 10 seconds is usually a reset; keep the later, real attempt.
+    if (chapters.length > 1) {
+      fixes.push(`Dropped "${previous.title}" (less than ${YOUTUBE_MIN_CHAPTER_SECONDS}s before the next pull).`);
+      chapters[chapters.length - 1] = entry;
+    } else {
+      fixes.push(`Dropped "${entry.title}" (less than ${YOUTUBE_MIN_CHAPTER_SECONDS}s after the first chapter).`);
+    }
+  });
+
+  // Titles are rendered again once every start is final, so `{timestamp}` matches the chapter.
+  chapters.forEach((chapter, index) => {
+    const next = chapters[index + 1];
+    if (next) {
+      chapter.endSeconds = next.startSeconds;
+    }
+    if (chapter.fight) {
+      chapter.title = renderChapterTitle(template, chapter.fight, chapter.startSeconds);
+    }
+  });
+
+  if (chapters.length < YOUTUBE_MIN_CHAPTERS) {
+    issues.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters; this video only has ${chapters.length}.`);
+  }
+  return { chapters, fixes, issues };
+}
+
+export function renderChapterTitle(template: string, fight: FightRow, startSeconds: number): string {
+  const latestPhase = fight.phases[fight.phases.length - 1];
+  const values: Record<ChapterTemplateToken, string> = {
+    boss: fight.bossName,
+    pull: String(fight.pull),
+    result: fight.result,
+    percent: typeof fight.bossHpLeft === "number" ? `${fight.bossHpLeft.toFixed(1)}%` : "",
+    progress: typeof fight.bossProgress === "number" ? `${fight.bossProgress.toFixed(1)}%` : "",
+    phase: latestPhase?.label ?? "",
+    duration: fight.durationText,
+    deaths: String(fight.deaths.length),
+    timestamp: formatChapterTimestamp(startSeconds, startSeconds >= 3600),
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, token: string) =>
+      token in values ? values[token as ChapterTemplateToken] : match,
+    )
+    .replace(/\s*\(\s*\)/g, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+export function formatChapters(list: ChapterList, format: ChapterFormat, title = "VODSync chapters"): string {
+  switch (format) {
+    case "youtube":
+      return formatYoutubeChapters(list.chapters);
+    case "csv":
+      return formatCsvChapters(list.chapters);
+    case "json":
+      return JSON.stringify(list.chapters.map(toChapterRecord), null, 2);
+    case "webvtt":
+      return formatWebVttChapters(list.chapters);
+    case "edl":
+      return formatEdlMarkers(list.chapters, title);
+    default:
+      throw new Error(`Unsupported chapter format "${format satisfies never}".`);
+  }
+}
+
+/** YouTube accepts `MM:SS` and `H:MM:SS`; the longer form is only used when the video needs it. */
+export function formatChapterTimestamp(seconds: number, withHours: boolean): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hrs = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  if (withHours) {
+    return `${hrs}:${String(mins).padStart(2, "0")}:${secs}`;
+  }
+  return `${String(mins).padStart(2, "0")}:${secs}`;
+}
+
+export function formatVttTimestamp(seconds: number): string {
+  const total = Math.max(0, seconds);
+  const hrs = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `${String(hrs).padStart(2, "0")}:${String(mins).padStart(2, "0")}:${secs.toFixed(3).padStart(6, "0")}`;
+}
+
+function formatYoutubeChapters(chapters: ChapterEntry[]): string {
+  const withHours = chapters.some((chapter) => chapter.startSeconds >= 3600);
+  return chapters
+    .map((chapter) => `${formatChapterTimestamp(chapter.startSeconds, withHours)} - ${chapter.title}`)
+    .join("\n");
+}
+
+function formatCsvChapters(chapters: ChapterEntry[]): string {
+  const header = [
+    "start_seconds",
+    "end_seconds",
+    "title",
+    "boss",
+    "pull",
+    "result",
+    "boss_hp_left",
+    "phase",
+    "duration_seconds",
+    "deaths",
+  ];
+  const rows = chapters.map((chapter) => {
+    const record = toChapterRecord(chapter);
+    return [
+      record.startSeconds,
+      record.endSeconds,
+      record.title,
+      record.boss ?? "",
+      record.pull ?? "",
+      record.result ?? "",
+      record.bossHpLeft ?? "",
+      record.phase ?? "",
+      record.durationSeconds ?? "",
+      record.deaths ?? "",
+    ]
+      .map((value) => escapeCsv(String(value)))
+      .join(",");
+  });
+  return [header.join(","), ...rows].join("\n");
+}
+
+function formatWebVttChapters(chapters: ChapterEntry[]): string {
+  const cues = chapters.map(
+    (chapter, index) =>
+      `${index + 1}\n${formatVttTimestamp(chapter.startSeconds)} --> ${formatVttTimestamp(chapter.endSeconds)}\n${chapter.title}`,
+  );
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+// CMX3600 with one-frame marker events; Resolve imports the |M: comments as timeline markers and
+// Premiere keeps them as clip names. Timelines conventionally start at 01:00:00:00.
+function formatEdlMarkers(chapters: ChapterEntry[], title: string, fps = 30, timelineStartSeconds = 3600): string {
+  const lines = [`TITLE: ${title}`, "FCM: NON-DROP FRAME", ""];
+  chapters.forEach((chapter, index) => {
+    const source = chapter.startSeconds * fps;
+    const record = (chapter.startSeconds + timelineStartSeconds) * fps;
+    const event = String(index + 1).padStart(3, "0");
+    lines.push(
+      `${event}  001      V     C        ${formatTimecode(source, fps)} ${formatTimecode(source + 1, fps)} ${formatTimecode(record, fps)} ${formatTimecode(record + 1, fps)}`,
+      ` |C:${chapter.fight?.kill ? "ResolveColorGreen" : "ResolveColorBlue"} |M:${chapter.title.replace(/\|/g, "/")} |D:1`,
+      "",
+    );
+  });
+  return lines.join("\n");
+}
+
+function toChapterRecord(chapter: ChapterEntry) {
+  const { fight } = chapter;
+  return {
+    startSeconds: chapter.startSeconds,
+    endSeconds: chapter.endSeconds,
+    title: chapter.title,
+    boss: fight?.bossName ?? null,
+    pull: fight?.pull ?? null,
+    result: fight?.result ?? null,
+    bossHpLeft: fight?.bossHpLeft ?? null,
+    phase: fight?.phases[fight.phases.length - 1]?.label ?? null,
+    durationSeconds: fight ? Math.round(fight.durationSeconds) : null,
+    deaths: fight?.deaths.length ?? null,
+  };
+}
+
+function formatTimecode(frames: number, fps: number): string {
+  const total = Math.max(0, Math.round(frames));
+  const frame = total % fps;
+  const seconds = Math.floor(total / fps);
+  return [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60, frame]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
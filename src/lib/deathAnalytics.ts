@@ -0,0 +1,161 @@
+import type { ActorInfo, DeathMarker, FightRow } from "./logtime";
+
+/** One death, pointing back at its pull so the UI can seek the VOD to it. */
+export interface DeathReference {
+  pull: number;
+  player: string;
+  offsetSeconds: number;
+  videoSeconds: number;
+}
+
+export interface FirstDeathStat {
+  player: string;
+  count: number;
+  deaths: DeathReference[];
+}
+
+export interface PlayerPhaseDeaths {
+  player: string;
+  total: number;
+  byPhase: Record<string, DeathReference[]>;
+}
+
+export interface BossDeathAnalytics {
+  bossName: string;
+  pullCount: number;
+  pullsWithDeaths: number;
+  averageFirstDeathSeconds: number | null;
+  firstDeaths: FirstDeathStat[];
+  phaseLabels: string[];
+  playerPhaseDeaths: PlayerPhaseDeaths[];
+  cascadeWipes: DeathReference[];
+}
+
+export interface DeathAnalyticsOptions {
+  actors?: ActorInfo[];
+  includeNonPlayers?: boolean;
+}
+
+export const CASCADE_WINDOW_SECONDS = 15;
+export const CASCADE_MIN_DEATHS = 3;
+
+/**
+ * Aggregates deaths across every pull of one boss. A cascade wipe is a wipe whose first death
+ * came in the first half of the pull and was followed by at least two more within 15 seconds.
+ */
+export function buildBossDeathAnalytics(
+  bossName: string,
+  fights: FightRow[],
+  options: DeathAnalyticsOptions = {},
+): BossDeathAnalytics {
+  const pulls = fights
+    .filter((fight) => !fight.isTrash && fight.bossName === bossName)
+    .sort((a, b) => a.pull - b.pull);
+  const isCounted = createDeathFilter(options);
+
+  const firstDeaths = new Map<string, FirstDeathStat>();
+  const playerDeaths = new Map<string, PlayerPhaseDeaths>();
+  const phaseLabels: string[] = [];
+  const cascadeWipes: DeathReference[] = [];
+  let firstDeathTotal = 0;
+  let pullsWithDeaths = 0;
+
+  pulls.forEach((fight) => {
+    const deaths = fight.deaths
+      .filter(isCounted)
+      .sort((a, b) => a.offsetSeconds - b.offsetSeconds)
+      .map((death) => toReference(fight, death));
+    if (!deaths.length) {
+      return;
+    }
+    pullsWithDeaths += 1;
+
+    const [first] = deaths;
+    firstDeathTotal += first.offsetSeconds;
+    const firstStat = firstDeaths.get(first.player) ?? { player: first.player, count: 0, deaths: [] };
+    firstStat.count += 1;
+    firstStat.deaths.push(first);
+    firstDeaths.set(first.player, firstStat);
+
+    deaths.forEach((death) => {
+      const phase = getPhaseLabel(fight, death.offsetSeconds);
+      if (!phaseLabels.includes(phase)) {
+        phaseLabels.push(phase);
+      }
+      const entry = playerDeaths.get(death.player) ?? { player: death.player, total: 0, byPhase: {} };
+      entry.total += 1;
+      if (!entry.byPhase[phase]) {
+        entry.byPhase[phase] = [];
+      }
+      entry.byPhase[phase].push(death);
+      playerDeaths.set(death.player, entry);
+    });
+
+    const cascade = deaths.filter(
+      (death) => death.offsetSeconds - first.offsetSeconds <= CASCADE_WINDOW_SECONDS,
+    );
+    const isEarly = first.offsetSeconds <= fight.durationSeconds / 2;
+    if (!fight.kill && isEarly && cascade.length >= CASCADE_MIN_DEATHS) {
+      cascadeWipes.push(first);
+    }
+  });
+
+  return {
+    bossName,
+    pullCount: pulls.length,
+    pullsWithDeaths,
+    averageFirstDeathSeconds: pullsWithDeaths ? firstDeathTotal / pullsWithDeaths : null,
+    firstDeaths: Array.from(firstDeaths.values()).sort(
+      (a, b) => b.count - a.count || a.player.localeCompare(b.player),
+    ),
+    phaseLabels: phaseLabels.sort(comparePhaseLabels),
+    playerPhaseDeaths: Array.from(playerDeaths.values()).sort(
+      (a, b) => b.total - a.total || a.player.localeCompare(b.player),
+    ),
+    cascadeWipes,
+  };
+}
+
+// Older payloads carry no actor type on deaths, so fall back to the report's actor list by name.
+function createDeathFilter(options: DeathAnalyticsOptions): (death: DeathMarker) => boolean {
+  if (options.includeNonPlayers) {
+    return () => true;
+  }
+  const playerNames = new Set(
+    (options.actors ?? [])
+      .filter((actor) => actor?.type === "Player" && actor.name)
+      .map((actor) => actor.name!.trim().toLowerCase()),
+  );
+  return (death) => {
+    if (death.actorType) {
+      return death.actorType === "Player";
+    }
+    return !playerNames.size || playerNames.has(death.player.trim().toLowerCase());
+  };
+}
+
+function toReference(fight: FightRow, death: DeathMarker): DeathReference {
+  return {
+    pull: fight.pull,
+    player: death.player,
+    offsetSeconds: death.offsetSeconds,
+    videoSeconds: fight.videoSeconds + death.offsetSeconds,
+  };
+}
+
+function getPhaseLabel(fight: FightRow, offsetSeconds: number): string {
+  const segment = fight.phaseSegments.find(
+    (entry) => offsetSeconds >= entry.startSeconds && offsetSeconds <= entry.endSeconds,
+  );
+  return segment?.label ?? fight.phaseSegments[fight.phaseSegments.length - 1]?.label ?? "P1";
+}
+
+function comparePhaseLabels(a: string, b: string): number {
+  const order = (label: string) => {
+    const match = label.match(/^([PI])(\d+)$/i);
+    if (!match) return Number.MAX_SAFE_INTEGER;
+    // Intermission N sits between phase N and phase N + 1.
+    return Number(match[2]) * 2 + (match[1].toUpperCase() === "I" ? 1 : 0);
+  };
+  return order(a) - order(b) || a.localeCompare(b);
+}
@@ -0,0 +1,139 @@
+import type { DefensivePlayerUsage, DefensiveTimelineResponse } from "./defensives";
+
+export interface TimelineAbility {
+  id: number;
+  name: string;
+  icon: string | null;
+}
+
+export interface TimelineCastMarker {
+  offsetSeconds: number;
+  ability: TimelineAbility;
+}
+
+export interface DeathVerdict {
+  player: string;
+  offsetSeconds: number;
+  /** The player's casts in the DEFENSIVE_REACTION_SECONDS before the death, latest first. */
+  recent: Array<{ ability: TimelineAbility; secondsBefore: number }>;
+  /** Defensives the player had ready: a known cooldown with a charge not spent within it this pull. */
+  ready: TimelineAbility[];
+}
+
+export interface DefensiveTimelineLane {
+  player: string;
+  className: string | null;
+  casts: TimelineCastMarker[];
+  deathOffsets: number[];
+}
+
+export interface DefensiveTimeline {
+  durationSeconds: number;
+  lanes: DefensiveTimelineLane[];
+  deaths: DeathVerdict[];
+}
+
+/** A defensive pressed this close to a death counts as a reaction to it. */
+export const DEFENSIVE_REACTION_SECONDS = 10;
+
+/**
+ * Lines one fight's defensive casts up with its deaths. A player's kit is every defensive they cast
+ * anywhere in the report (`players` is the report-wide usage), so spells they never pressed are not
+ * counted as ready.
+ */
+export function buildDefensiveTimeline(
+  timeline: DefensiveTimelineResponse,
+  players: DefensivePlayerUsage[],
+): DefensiveTimeline {
+  const abilities = new Map<number, TimelineAbility>();
+  const kits = new Map<string, number[]>();
+  const classNames = new Map<string, string | null>();
+  players.forEach((player) => {
+    const key = getPlayerKey(player.name);
+    classNames.set(key, player.className);
+    kits.set(
+      key,
+      player.abilities.flatMap((ability) => {
+        if (ability.id == null) return [];
+        abilities.set(ability.id, { id: ability.id, name: ability.name, icon: ability.icon });
+        return [ability.id];
+      }),
+    );
+  });
+  const resolveAbility = (id: number): TimelineAbility =>
+    abilities.get(id) ?? { id, name: `Ability ${id}`, icon: null };
+
+  const lanes = new Map<string, DefensiveTimelineLane>();
+  const getLane = (player: string) => {
+    const key = getPlayerKey(player);
+    if (!lanes.has(key)) {
+      lanes.set(key, { player, className: classNames.get(key) ?? null, casts: [], deathOffsets: [] });
+    }
+    return lanes.get(key)!;
+  };
+
+  const castsByPlayer = new Map<string, Array<{ timestamp: number; abilityId: number }>>();
+  timeline.casts.forEach((cast) => {
+    if (cast.abilityId == null) return;
+    getLane(cast.player).casts.push({
+      offsetSeconds: cast.timestamp / 1000,
+      ability: resolveAbility(cast.abilityId),
+    });
+    const key = getPlayerKey(cast.player);
+    if (!castsByPlayer.has(key)) {
+      castsByPlayer.set(key, []);
+    }
+    castsByPlayer.get(key)!.push({ timestamp: cast.timestamp, abilityId: cast.abilityId });
+  });
+
+  const deaths = timeline.deaths.map((death) => {
+    const key = getPlayerKey(death.player);
+    getLane(death.player).deathOffsets.push(death.timestamp / 1000);
+    const before = (castsByPlayer.get(key) ?? []).filter((cast) => cast.timestamp <= death.timestamp);
+    const recent = before
+      .filter((cast) => death.timestamp - cast.timestamp <= DEFENSIVE_REACTION_SECONDS * 1000)
+      .reverse()
+      .map((cast) => ({
+        ability: resolveAbility(cast.abilityId),
+        secondsBefore: Math.round((death.timestamp - cast.timestamp) / 1000),
+      }));
+    const ready = (kits.get(key) ?? [])
+      .filter((abilityId) => {
+        const cooldown = timeline.cooldowns[abilityId];
+        if (!cooldown) return false;
+        const spent = before.filter(
+          (cast) => cast.abilityId === abilityId && death.timestamp - cast.timestamp < cooldown * 1000,
+        ).length;
+        return spent < (timeline.charges?.[abilityId] ?? 1);
+      })
+      .map(resolveAbility);
+    return { player: death.player, offsetSeconds: death.timestamp / 1000, recent, ready };
+  });
+
+  // Players who died lead, in the order they fell; everyone else follows alphabetically.
+  const sortedLanes = Array.from(lanes.values()).sort((a, b) => {
+    const aDeath = a.deathOffsets[0] ?? Infinity;
+    const bDeath = b.deathOffsets[0] ?? Infinity;
+    if (aDeath !== bDeath) return aDeath - bDeath;
+    return a.player.localeCompare(b.player);
+  });
+
+  return { durationSeconds: timeline.fight.duration / 1000, lanes: sortedLanes, deaths };
+}
+
+export function describeDeathVerdict(verdict: DeathVerdict): string {
+  const parts: string[] = [];
+  if (verdict.recent.length) {
+    const latest = verdict.recent[0];
+    parts.push(`${latest.ability.name} used ${latest.secondsBefore} s before death`);
+  }
+  if (verdict.ready.length) {
+    parts.push(`died with ${verdict.ready.map((ability) => ability.name).join(", ")} off cooldown`);
+  }
+  return parts.length ? parts.join("; ") : "no defensive used or ready";
+}
+
+// Table rows carry player GUIDs while events carry actor IDs, so lanes are matched by name.
+function getPlayerKey(name: string): string {
+  return name.trim().toLowerCase();
+}
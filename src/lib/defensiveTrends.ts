@@ -0,0 +1,65 @@
+import { getCoverageUses, getDefensiveCoverage, type DefensiveReportSnapshot } from "./defensives";
+
+export interface DefensiveTrendPoint {
+  reportCode: string;
+  startTime: number | null;
+  specName: string | null;
+  uses: number;
+  /** The casts and possible uses coverage is measured on. */
+  coverageUses: number;
+  possible: number;
+  usesPerMinute: number | null;
+  /** 0–1, or null when no possible count is known. */
+  coverage: number | null;
+}
+
+export interface DefensiveTrendLine {
+  key: string;
+  name: string;
+  server: string | null;
+  className: string | null;
+  /** One point per report the player appears in, oldest first. */
+  points: DefensiveTrendPoint[];
+}
+
+/**
+ * Follows each character across report snapshots (oldest first). Characters are matched by name and
+ * server, so namesakes on different realms stay apart. Uses per minute count only the pulls the player
+ * was in, falling back to the report's boss time for snapshots without that figure.
+ */
+export function buildDefensiveTrends(reports: DefensiveReportSnapshot[]): DefensiveTrendLine[] {
+  const lines = new Map<string, DefensiveTrendLine>();
+  reports.forEach((report) => {
+    report.players.forEach((player) => {
+      const key = getCharacterKey(player.name, player.server ?? null);
+      if (!lines.has(key)) {
+        lines.set(key, { key, name: player.name, server: player.server ?? null, className: null, points: [] });
+      }
+      const line = lines.get(key)!;
+      line.className = player.className ?? line.className;
+      const seconds = player.activeSeconds ?? report.durationSeconds;
+      line.points.push({
+        reportCode: report.code,
+        startTime: report.startTime,
+        specName: player.specName,
+        uses: player.totalUses,
+        coverageUses: getCoverageUses(player),
+        possible: player.maxPossibleUses,
+        usesPerMinute: seconds > 0 ? player.totalUses / (seconds / 60) : null,
+        coverage: getDefensiveCoverage(player),
+      });
+    });
+  });
+  // Regulars first: the players seen in the most reports, then by name.
+  return Array.from(lines.values()).sort(
+    (a, b) => b.points.length - a.points.length || a.name.localeCompare(b.name),
+  );
+}
+
+export function describeCharacter(line: Pick<DefensiveTrendLine, "name" | "server">): string {
+  return line.server ? `${line.name}-${line.server}` : line.name;
+}
+
+function getCharacterKey(name: string, server: string | null): string {
+  return `${name.trim().toLowerCase()}|${(server ?? "").trim().toLowerCase()}`;
+}
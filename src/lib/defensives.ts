@@ -1,4 +1,15 @@
 import { extractReportId, type ReportMeta } from "./logtime";
+import { readRateLimitError } from "./rateLimit";
+
+/** Who a defensive protects, from the server's defensive catalog. */
+export type DefensiveCategory = "mitigation" | "personal" | "external" | "raid";
+
+export const DEFENSIVE_CATEGORY_LABELS: Record<DefensiveCategory, string> = {
+  mitigation: "Active mitigation",
+  personal: "Personals",
+  external: "Externals",
+  raid: "Raid cooldowns",
+};
 
 export interface DefensiveAbilityUsage {
   id: number | null;
@@ -6,16 +17,45 @@ export interface DefensiveAbilityUsage {
   icon: string | null;
   uses: number;
   possible: number;
+  /** Null for spells the catalog does not list. */
+  category: DefensiveCategory | null;
+  /** `cooldown` when the server derived `possible` from catalog cooldowns, `wcl` when it kept WCL's count. */
+  possibleBasis?: DefensivePossibleBasis;
+  /** How `possible` was worked out, for tooltips. */
+  possibleFormula?: string | null;
 }
 
+export type DefensivePossibleBasis = "cooldown" | "wcl";
+
+/** Null when the server could not tell the player's spec. */
+export type DefensiveRole = "tank" | "healer" | "dps";
+
+export const DEFENSIVE_ROLE_LABELS: Record<DefensiveRole, string> = {
+  tank: "Tanks",
+  healer: "Healers",
+  dps: "Damage dealers",
+};
+
 export interface DefensivePlayerUsage {
   id: number | null;
   name: string;
+  /** Realm from the report's actor list; with the name it identifies a character across reports. */
+  server?: string | null;
   className: string | null;
   specName: string | null;
-  role?: string | null;
+  role?: DefensiveRole | null;
   totalUses: number;
+  /**
+   * Possible uses of the abilities whose basis is `possibleBasis`: the cooldown-based ones when the player
+   * has any (un-cast kit defensives included), otherwise WCL's total. The two bases are never summed.
+   */
   maxPossibleUses: number;
+  /** Casts of the same abilities `maxPossibleUses` counts; coverage is this over `maxPossibleUses`. */
+  coverageUses?: number;
+  possibleBasis?: DefensivePossibleBasis;
+  possibleFormula?: string | null;
+  /** Seconds of the pulls in scope that the player took part in. */
+  activeSeconds?: number;
   abilities: DefensiveAbilityUsage[];
 }
 
@@ -27,25 +67,46 @@ export interface DefensiveFightSummary {
   duration: number | null;
 }
 
+/** Narrows the breakdown to some pulls. Filters combine; `lastPulls` is applied after the others. */
+export interface DefensiveFightFilter {
+  fightIds?: number[];
+  killsOnly?: boolean;
+  encounterId?: number;
+  lastPulls?: number;
+}
+
+export interface DefensiveSelection {
+  filter: DefensiveFightFilter;
+  fightIds: number[];
+  players: DefensivePlayerUsage[];
+  abilities: DefensiveAbilityUsage[];
+}
+
 export interface DefensiveUsageResponse {
   report: ReportMeta | null;
   fights: DefensiveFightSummary[];
   players: DefensivePlayerUsage[];
   abilities: DefensiveAbilityUsage[];
+  selection: DefensiveSelection | null;
 }
 
 export async function fetchDefensiveUsage(
   reportIdOrUrl: string,
+  fightFilter: DefensiveFightFilter | null = null,
 ): Promise<DefensiveUsageResponse> {
   const reportId = extractReportId(reportIdOrUrl);
   const response = await fetch("/api/defensives", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ reportId }),
+    body: JSON.stringify({ reportId, ...fightFilter }),
   });
 
   if (!response.ok) {
     const text = await response.text();
+    const rateLimitError = readRateLimitError(response, text);
+    if (rateLimitError) {
+      throw rateLimitError;
+    }
     throw new Error(
       `Failed to load defensive usage (${response.status} ${response.statusText}): ${text || "No details"}`,
     );
@@ -55,5 +116,236 @@ export async function fetchDefensiveUsage(
   if (!Array.isArray(payload.abilities)) {
     payload.abilities = [];
   }
+  payload.selection = payload.selection ?? null;
   return payload;
 }
+
+/** Offsets are milliseconds from the pull. */
+export interface DefensiveTimelineCast {
+  timestamp: number;
+  playerId: number | null;
+  player: string;
+  abilityId: number | null;
+}
+
+export interface DefensiveTimelineDeath {
+  timestamp: number;
+  playerId: number | null;
+  player: string;
+}
+
+export interface DefensiveTimelineResponse {
+  fight: DefensiveFightSummary & { duration: number };
+  casts: DefensiveTimelineCast[];
+  deaths: DefensiveTimelineDeath[];
+  /** Base cooldown in seconds per spell ID; spells without one are never reported as ready. */
+  cooldowns: Record<string, number>;
+  /** Charges per spell ID, listed only when above one. */
+  charges: Record<string, number>;
+  warnings?: string[];
+}
+
+/** A moment of a defensives fight to open in the VOD review. */
+export interface DefensiveReviewTarget {
+  reportId: string;
+  fightId: number;
+  offsetSeconds: number;
+}
+
+export async function fetchDefensiveTimeline(
+  reportIdOrUrl: string,
+  fightId: number,
+): Promise<DefensiveTimelineResponse> {
+  const reportId = extractReportId(reportIdOrUrl);
+  const response = await fetch("/api/defensives/timeline", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reportId, fightId }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    const rateLimitError = readRateLimitError(response, text);
+    if (rateLimitError) {
+      throw rateLimitError;
+    }
+    throw new Error(
+      `Failed to load defensive timeline (${response.status} ${response.statusText}): ${text || "No details"}`,
+    );
+  }
+
+  return (await response.json()) as DefensiveTimelineResponse;
+}
+
+/** One report's player rows as the server stored them for trends. */
+export interface DefensiveReportSnapshot {
+  code: string;
+  title: string | null;
+  startTime: number | null;
+  /** Combined length of the report's boss pulls. */
+  durationSeconds: number;
+  /** Catalog revision the numbers were computed with; null when the catalog file has none. */
+  revision: string | null;
+  /** Hash of the catalog entries the numbers were computed with. */
+  catalogKey: string;
+  players: DefensivePlayerUsage[];
+}
+
+export interface DefensiveTrendsResponse {
+  /** Oldest first. */
+  reports: DefensiveReportSnapshot[];
+  warnings?: string[];
+}
+
+/** Either explicit report codes, or a guild's reports between two epoch-millisecond times. */
+export type DefensiveTrendsRequest =
+  | { reportIds: string[] }
+  | { guild: { name: string; server: string; region: string }; startTime?: number; endTime?: number };
+
+export async function fetchDefensiveTrends(request: DefensiveTrendsRequest): Promise<DefensiveTrendsResponse> {
+  const response = await fetch("/api/defensives/trends", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    const rateLimitError = readRateLimitError(response, text);
+    if (rateLimitError) {
+      throw rateLimitError;
+    }
+    throw new Error(
+      `Failed to load defensive trends (${response.status} ${response.statusText}): ${text || "No details"}`,
+    );
+  }
+
+  return (await response.json()) as DefensiveTrendsResponse;
+}
+
+/** Finds a player's row in another table of the same report (the selection vs. the totals). */
+export function findDefensivePlayer(
+  players: DefensivePlayerUsage[],
+  player: DefensivePlayerUsage,
+): DefensivePlayerUsage | null {
+  return (
+    players.find((candidate) => (player.id != null ? candidate.id === player.id : candidate.name === player.name)) ??
+    null
+  );
+}
+
+export function findDefensiveAbility(
+  abilities: DefensiveAbilityUsage[],
+  ability: DefensiveAbilityUsage,
+): DefensiveAbilityUsage | null {
+  return (
+    abilities.find((candidate) =>
+      ability.id != null ? candidate.id === ability.id : candidate.name === ability.name,
+    ) ?? null
+  );
+}
+
+/**
+ * Client-side preview of the server's pull filter over the fight summaries (which arrive in pull order),
+ * so the picker can highlight the pulls a filter will select before it is applied.
+ */
+export function matchDefensiveFights(
+  fights: DefensiveFightSummary[],
+  filter: DefensiveFightFilter,
+): DefensiveFightSummary[] {
+  let matched = fights.filter((fight) => fight.id != null);
+  if (filter.fightIds) {
+    const wanted = new Set(filter.fightIds);
+    matched = matched.filter((fight) => wanted.has(fight.id as number));
+  }
+  if (filter.encounterId) {
+    matched = matched.filter((fight) => fight.encounterID === filter.encounterId);
+  }
+  if (filter.killsOnly) {
+    matched = matched.filter((fight) => fight.kill);
+  }
+  if (filter.lastPulls) {
+    matched = matched.slice(-filter.lastPulls);
+  }
+  return matched;
+}
+
+export function hasDefensiveFightFilter(filter: DefensiveFightFilter | null | undefined): boolean {
+  return Boolean(
+    filter && (filter.fightIds?.length || filter.killsOnly || filter.encounterId || filter.lastPulls),
+  );
+}
+
+/**
+ * Splits abilities into catalog categories (active mitigation, personal, external, raid, then
+ * uncategorised), keeping order.
+ */
+export function groupAbilitiesByCategory<T extends DefensiveAbilityUsage>(
+  abilities: T[],
+): Array<{ category: DefensiveCategory | null; label: string; abilities: T[] }> {
+  const order: Array<DefensiveCategory | null> = ["mitigation", "personal", "external", "raid", null];
+  return order
+    .map((category) => ({
+      category,
+      label: category ? DEFENSIVE_CATEGORY_LABELS[category] : "Other",
+      abilities: abilities.filter((ability) => (ability.category ?? null) === category),
+    }))
+    .filter((group) => group.abilities.length > 0);
+}
+
+/** Narrows the player cards. Unset fields match everyone. */
+export interface DefensivePlayerFilter {
+  role?: DefensiveRole;
+  className?: string;
+  specName?: string;
+}
+
+export type DefensivePlayerSort = "uses" | "coverage" | "name";
+
+/** Share of possible uses that were cast, 0–1, or null when WCL and the catalog know no possible count. */
+export function getDefensiveCoverage(player: DefensivePlayerUsage): number | null {
+  return player.maxPossibleUses > 0 ? Math.min(1, getCoverageUses(player) / player.maxPossibleUses) : null;
+}
+
+export function getCoverageUses(player: DefensivePlayerUsage): number {
+  return player.coverageUses ?? player.totalUses;
+}
+
+export function filterDefensivePlayers(
+  players: DefensivePlayerUsage[],
+  filter: DefensivePlayerFilter,
+): DefensivePlayerUsage[] {
+  return players.filter(
+    (player) =>
+      (!filter.role || player.role === filter.role) &&
+      (!filter.className || player.className === filter.className) &&
+      (!filter.specName || player.specName === filter.specName),
+  );
+}
+
+/** Sorts a copy; players without a coverage figure go last when sorting by coverage. Ties fall back to name. */
+export function sortDefensivePlayers(
+  players: DefensivePlayerUsage[],
+  sort: DefensivePlayerSort,
+): DefensivePlayerUsage[] {
+  const compare = (a: DefensivePlayerUsage, b: DefensivePlayerUsage) => {
+    if (sort === "uses") return b.totalUses - a.totalUses;
+    if (sort === "coverage") return (getDefensiveCoverage(b) ?? -1) - (getDefensiveCoverage(a) ?? -1);
+    return 0;
+  };
+  return [...players].sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+}
+
+/** Splits players by role (tanks, healers, damage dealers, then unknown), keeping order. */
+export function groupPlayersByRole(
+  players: DefensivePlayerUsage[],
+): Array<{ role: DefensiveRole | null; label: string; players: DefensivePlayerUsage[] }> {
+  const order: Array<DefensiveRole | null> = ["tank", "healer", "dps", null];
+  return order
+    .map((role) => ({
+      role,
+      label: role ? DEFENSIVE_ROLE_LABELS[role] : "Unknown role",
+      players: players.filter((player) => (player.role ?? null) === role),
+    }))
+    .filter((group) => group.players.length > 0);
+}
@@ -0,0 +1,62 @@
+import { formatVttTimestamp } from "./chapters";
+import type { FightRow } from "./logtime";
+
+export type EventCueKind = "phase" | "death" | "tracked";
+
+export interface EventCue {
+  kind: EventCueKind;
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
+
+export const EVENT_CUE_SECONDS = 4;
+
+/**
+ * Turns the phase, death and tracked-cast markers of every fight into cues on a video's own clock.
+ * `mapSeconds` converts review timeline seconds to the video position; cues before 0 are dropped.
+ */
+export function buildEventCues(
+  fights: FightRow[],
+  mapSeconds: (globalSeconds: number) => number = (seconds) => seconds,
+): EventCue[] {
+  const cues: EventCue[] = [];
+  const push = (kind: EventCueKind, globalSeconds: number, text: string) => {
+    const startSeconds = mapSeconds(globalSeconds);
+    if (!Number.isFinite(startSeconds) || startSeconds < 0) {
+      return;
+    }
+    cues.push({ kind, startSeconds, endSeconds: startSeconds + EVENT_CUE_SECONDS, text });
+  };
+
+  fights.forEach((fight) => {
+    push("phase", fight.videoSeconds, fight.isTrash ? fight.bossName : `${fight.bossName} - Pull #${fight.pull}`);
+    fight.phaseMarkers.forEach((marker) => {
+      push("phase", fight.videoSeconds + marker.offsetSeconds, describePhaseLabel(marker.label));
+    });
+    fight.deaths.forEach((death) => {
+      push("death", fight.videoSeconds + death.offsetSeconds, `${death.player} died`);
+    });
+    fight.trackedMarkers.forEach((marker) => {
+      push("tracked", fight.videoSeconds + marker.offsetSeconds, `${marker.ability} by ${marker.caster}`);
+    });
+  });
+
+  return cues.sort((a, b) => a.startSeconds - b.startSeconds);
+}
+
+export function formatEventTrack(cues: EventCue[]): string {
+  const blocks = cues.map(
+    (cue) => `${formatVttTimestamp(cue.startSeconds)} --> ${formatVttTimestamp(cue.endSeconds)}\n${cue.text}`,
+  );
+  return ["WEBVTT", ...blocks].join("\n\n") + "\n";
+}
+
+// Phase markers use the compact scrubber labels ("P2", "I1"); captions spell them out.
+function describePhaseLabel(label: string): string {
+  const match = label.match(/^([PI])(\d+)$/i);
+  if (!match) {
+    return label;
+  }
+  return `${match[1].toUpperCase() === "P" ? "Phase" : "Intermission"} ${match[2]}`;
+}
@@ -0,0 +1,104 @@
+import type { FightRow, FightRowOptions, RawFight, ReportPayload } from "./logtime";
+
+export interface LiveFightsUpdate {
+  code: string;
+  fights: RawFight[];
+  warnings?: string[];
+}
+
+export interface LiveProblem {
+  error: string;
+  retryAfterSeconds: number | null;
+}
+
+export interface LiveReportHandlers {
+  onSnapshot: (report: ReportPayload) => void;
+  onFights: (update: LiveFightsUpdate) => void;
+  onProblem: (problem: LiveProblem) => void;
+  /** Called when the browser or the server cannot keep an event stream open. */
+  onUnavailable: () => void;
+}
+
+/** Failed reconnects in a row after which the stream is given up and the caller falls back to polling. */
+export const LIVE_RECONNECT_ATTEMPTS = 3;
+
+/** Opens the server's live event stream for one report; returns a function that closes it. */
+export function subscribeToLiveReport(
+  reportId: string,
+  options: FightRowOptions,
+  handlers: LiveReportHandlers,
+): () => void {
+  if (typeof EventSource === "undefined") {
+    handlers.onUnavailable();
+    return () => undefined;
+  }
+  const params = new URLSearchParams({ reportId });
+  if (options.include) {
+    params.set("include", options.include.join(","));
+  }
+  if (options.includeTrash) {
+    params.set("includeTrash", "1");
+  }
+  if (options.trackedAbilities?.length) {
+    params.set("trackedAbilities", JSON.stringify(options.trackedAbilities));
+  }
+  const source = new EventSource(`/api/report/live?${params.toString()}`);
+  const listen = <T,>(event: string, handler: (payload: T) => void) => {
+    source.addEventListener(event, (message) => {
+      try {
+        handler(JSON.parse((message as MessageEvent<string>).data) as T);
+      } catch {
+        // ignore malformed events; the next one carries the full change set again
+      }
+    });
+  };
+  listen("snapshot", handlers.onSnapshot);
+  listen("fights", handlers.onFights);
+  listen("problem", handlers.onProblem);
+  // EventSource reconnects on its own while CONNECTING; CLOSED means the endpoint refused the stream.
+  // A stream that keeps failing to reconnect is closed too, so the caller does not wait on it forever.
+  let failures = 0;
+  source.onopen = () => {
+    failures = 0;
+  };
+  source.onerror = () => {
+    failures += 1;
+    if (source.readyState === EventSource.CLOSED || failures >= LIVE_RECONNECT_ATTEMPTS) {
+      source.close();
+      handlers.onUnavailable();
+    }
+  };
+  return () => source.close();
+}
+
+export function applyLiveFights(report: ReportPayload, update: LiveFightsUpdate): ReportPayload {
+  const byId = new Map(report.fights.map((fight) => [fight.id, fight]));
+  update.fights.forEach((fight) => byId.set(fight.id, fight));
+  return {
+    ...report,
+    fights: Array.from(byId.values()).sort((a, b) => a.startTime - b.startTime),
+    warnings: update.warnings ?? report.warnings,
+  };
+}
+
+/**
+ * Keeps the previous row object for every fight whose row did not change, so selections and memoised
+ * views survive a live update. `added` lists rows for fights that were not shown before.
+ */
+export function mergeFightRows(previous: FightRow[], next: FightRow[]): { rows: FightRow[]; added: FightRow[] } {
+  const previousByKey = new Map(previous.map((row) => [getFightRowKey(row), row]));
+  const added: FightRow[] = [];
+  const rows = next.map((row) => {
+    const existing = previousByKey.get(getFightRowKey(row));
+    if (!existing) {
+      added.push(row);
+      return row;
+    }
+    return JSON.stringify(existing) === JSON.stringify(row) ? existing : row;
+  });
+  return { rows, added };
+}
+
+function getFightRowKey(row: FightRow): string {
+  return `${row.reportCode ?? ""}:${row.fightId}`;
+}
@@ -1,3 +1,5 @@
+import { readRateLimitError } from "./rateLimit";
+
 export interface RawFight {
   id: number;
   name: string;
@@ -11,8 +13,11 @@ export interface RawFight {
   lastPhaseIsIntermission?: boolean | null;
   phaseTransitions?: Array<PhaseTransitionData>;
   deaths?: Array<GraphQLDeathEvent>;
-  bloodlusts?: Array<GraphQLBloodlustEvent>;
+  trackedEvents?: Array<GraphQLTrackedEvent>;
+  /** The bloodlust lane's casts, still sent for clients that predate tracked lanes. */
+  bloodlusts?: Array<GraphQLTrackedEvent>;
   phaseMetadata?: Record<string, PhaseMetadataEntry>;
+  reportCode?: string;
 }
 
 interface PhaseTransitionData {
@@ -28,26 +33,35 @@ interface GraphQLDeathEvent {
   target?: { name?: string };
 }
 
-interface GraphQLBloodlustEvent {
+interface GraphQLTrackedEvent {
   timestamp: number;
+  group?: string;
   source?: { name?: string };
-  ability?: { name?: string; id?: number | null };
+  ability?: { name?: string; id?: number | null; icon?: string | null };
 }
 
 export interface ReportPayload {
+  code?: string;
   fights: RawFight[];
   title?: string;
   owner?: string;
   zone?: { id: number; name?: string } | number;
   actors?: ActorInfo[];
+  trackedAbilities?: TrackedAbilityGroup[];
   startTime?: number | null;
+  /** Event sections the server filled in; fights omit the fields of sections left out. */
+  include?: ReportSection[];
+  /** Set when the server hit its event page limit and some fights carry incomplete events. */
+  warnings?: string[];
 }
 
 export interface FightRow {
+  /** WCL fight ID within `reportCode`. */
+  fightId: number;
   pull: number;
   bossName: string;
   kill: boolean;
-  result: "KILL" | "Wipe";
+  result: "KILL" | "Wipe" | "Trash";
   timestamp: string;
   videoSeconds: number;
   bossHpLeft?: number;
@@ -58,7 +72,24 @@ export interface FightRow {
   phaseSegments: PhaseSegment[];
   phaseMarkers: PhaseMarker[];
   deaths: DeathMarker[];
-  bloodlusts: BloodlustMarker[];
+  trackedMarkers: TrackedMarker[];
+  /** The bloodlust lane of `trackedMarkers`, kept for consumers written before lanes existed. */
+  bloodlusts: TrackedMarker[];
+  reportCode?: string;
+  isTrash?: boolean;
+}
+
+/** Per-fight event sections `/api/report` can return; `tracked` covers every tracked-ability lane. */
+export type ReportSection = "deaths" | "tracked";
+
+export interface FightRowOptions {
+  /** Limits the request to these event sections; omitted means all of them. */
+  include?: ReportSection[];
+  includeTrash?: boolean;
+  /** Extra or replacement tracked-ability groups; omitted groups use the server config. */
+  trackedAbilities?: TrackedAbilityInput[];
+  /** Live sessions make the server re-check the report even when its cache marks it finished. */
+  live?: boolean;
 }
 
 export interface PhaseInfo {
@@ -87,11 +118,32 @@ interface PhaseMetadataEntry {
 
 export interface DeathMarker {
   player: string;
+  /** WCL actor type of the target ("Player", "Pet", "NPC") when the server could resolve it. */
+  actorType?: string | null;
   offsetSeconds: number;
   offsetText: string;
 }
 
-export interface BloodlustMarker {
+/** A timeline lane of tracked casts, as configured on the server or in the request. */
+export interface TrackedAbilityGroup {
+  id: string;
+  label: string;
+  color: string;
+  icon: string | null;
+  hostile?: boolean;
+}
+
+export interface TrackedAbilityInput {
+  id?: string;
+  label: string;
+  color?: string;
+  icon?: string;
+  hostile?: boolean;
+  abilityIds: number[];
+}
+
+export interface TrackedMarker {
+  group: string;
   caster: string;
   ability: string;
   abilityId: number | null;
@@ -104,6 +156,7 @@ export interface ReportMeta {
   title?: string;
   owner?: string;
   zone?: { id: number; name?: string } | number;
+  warnings?: string[];
 }
 
 export interface ActorInfo {
@@ -113,36 +166,28 @@ export interface ActorInfo {
   subType?: string | null;
 }
 
-const BLOODLUST_ICON_ID_MAP: Record<number, string> = {
-  2825: "https://wow.zamimg.com/images/wow/icons/large/spell_nature_bloodlust.jpg",
-  32182: "https://wow.zamimg.com/images/wow/icons/large/ability_shaman_heroism.jpg",
-  80353: "https://wow.zamimg.com/images/wow/icons/large/spell_arcane_timewarp.jpg",
-  90355: "https://wow.zamimg.com/images/wow/icons/large/spell_shadow_lifedrain.jpg",
-  178207: "https://wow.zamimg.com/images/wow/icons/large/inv_misc_drum_05.jpg",
-  204361: "https://wow.zamimg.com/images/wow/icons/large/inv_misc_drum_05.jpg",
-  264667: "https://wow.zamimg.com/images/wow/icons/large/ability_hunter_bestialdiscipline.jpg",
-  390386: "https://wow.zamimg.com/images/wow/icons/large/ability_evoker_furyoftheaspects.jpg",
-};
-
-const BLOODLUST_ICON_NAME_MAP: Record<string, string> = {
-  bloodlust: "https://wow.zamimg.com/images/wow/icons/large/spell_nature_bloodlust.jpg",
-  heroism: "https://wow.zamimg.com/images/wow/icons/large/ability_shaman_heroism.jpg",
-  "time warp": "https://wow.zamimg.com/images/wow/icons/large/spell_arcane_timewarp.jpg",
-  "ancient hysteria": "https://wow.zamimg.com/images/wow/icons/large/spell_shadow_lifedrain.jpg",
-  "primal rage": "https://wow.zamimg.com/images/wow/icons/large/ability_hunter_bestialdiscipline.jpg",
-  "drums of rage": "https://wow.zamimg.com/images/wow/icons/large/inv_misc_drum_05.jpg",
-  "fury of the aspects": "https://wow.zamimg.com/images/wow/icons/large/ability_evoker_furyoftheaspects.jpg",
-};
-
-export async function fetchReportFights(reportIdOrUrl: string): Promise<ReportPayload> {
+export async function fetchReportFights(
+  reportIdOrUrl: string,
+  options: FightRowOptions = {},
+): Promise<ReportPayload> {
   const reportId = extractReportId(reportIdOrUrl);
   const response = await fetch("/api/report", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ reportId }),
+    body: JSON.stringify({
+      reportId,
+      include: options.include?.join(","),
+      includeTrash: Boolean(options.includeTrash),
+      trackedAbilities: options.trackedAbilities?.length ? options.trackedAbilities : undefined,
+      live: options.live || undefined,
+    }),
   });
   if (!response.ok) {
     const text = await response.text();
+    const rateLimitError = readRateLimitError(response, text);
+    if (rateLimitError) {
+      throw rateLimitError;
+    }
     throw new Error(
       `Failed to load report (${response.status} ${response.statusText}): ${text || "No details"}`,
     );
@@ -150,6 +195,146 @@ export async function fetchReportFights(reportIdOrUrl: string): Promise<ReportPa
   return (await response.json()) as ReportPayload;
 }
 
+export async function fetchSessionReports(
+  reportIds: string[],
+  options: FightRowOptions = {},
+): Promise<ReportPayload> {
+  if (!reportIds.length) {
+    throw new Error("At least one report ID is required.");
+  }
+  const reports = await Promise.all(
+    reportIds.map((reportId) => fetchReportFights(reportId, options)),
+  );
+  return mergeReportPayloads(reports);
+}
+
+/**
+ * Combines several reports from the same night into one payload. Fight, death, tracked-cast and phase
+ * timestamps are rebased onto the earliest report's clock so pulls stay in absolute order.
+ */
+export function mergeReportPayloads(reports: ReportPayload[]): ReportPayload {
+  if (!reports.length) {
+    throw new Error("No reports to merge.");
+  }
+  if (reports.length === 1) {
+    const [report] = reports;
+    return {
+      ...report,
+      fights: (report.fights ?? []).map((fight) => ({ ...fight, reportCode: report.code })),
+    };
+  }
+  const missingStart = reports.find((report) => typeof report.startTime !== "number");
+  if (missingStart) {
+    throw new Error(
+      `Report ${missingStart.code ?? missingStart.title ?? "(unknown)"} has no start time, so it cannot be merged.`,
+    );
+  }
+  const baseStart = Math.min(...reports.map((report) => report.startTime as number));
+  const merged: RawFight[] = [];
+  reports.forEach((report) => {
+    const shiftMs = (report.startTime as number) - baseStart;
+    (report.fights ?? []).forEach((fight) => {
+      const shifted = shiftFight(fight, shiftMs, report.code);
+      if (!isDuplicateBossFight(shifted, merged)) {
+        merged.push(shifted);
+      }
+    });
+  });
+  merged.sort((a, b) => a.startTime - b.startTime);
+
+  const actors: ActorInfo[] = [];
+  const seenActors = new Set<string>();
+  reports.forEach((report) => {
+    (report.actors ?? []).forEach((actor) => {
+      const key = `${actor?.type ?? ""}:${actor?.name ?? actor?.id}`;
+      if (seenActors.has(key)) return;
+      seenActors.add(key);
+      actors.push(actor);
+    });
+  });
+
+  const trackedAbilities = new Map<string, TrackedAbilityGroup>();
+  reports.forEach((report) => {
+    (report.trackedAbilities ?? []).forEach((group) => {
+      if (!trackedAbilities.has(group.id)) {
+        trackedAbilities.set(group.id, group);
+      }
+    });
+  });
+
+  const [first] = reports;
+  return {
+    code: first.code,
+    title: first.title,
+    owner: first.owner,
+    zone: first.zone,
+    include: first.include,
+    fights: merged,
+    actors,
+    trackedAbilities: Array.from(trackedAbilities.values()),
+    startTime: baseStart,
+    warnings: reports.flatMap((report) =>
+      (report.warnings ?? []).map((warning) => (report.code ? `${report.code}: ${warning}` : warning)),
+    ),
+  };
+}
+
+function shiftFight(fight: RawFight, shiftMs: number, reportCode?: string): RawFight {
+  const shiftTimestamp = <T extends { timestamp: number }>(event: T): T =>
+    typeof event?.timestamp === "number" ? { ...event, timestamp: event.timestamp + shiftMs } : event;
+  return {
+    ...fight,
+    reportCode,
+    startTime: fight.startTime + shiftMs,
+    endTime: fight.endTime + shiftMs,
+    phaseTransitions: Array.isArray(fight.phaseTransitions)
+      ? fight.phaseTransitions.map((transition) =>
+          typeof transition?.startTime === "number"
+            ? { ...transition, startTime: transition.startTime + shiftMs }
+            : transition,
+        )
+      : fight.phaseTransitions,
+    deaths: Array.isArray(fight.deaths) ? fight.deaths.map(shiftTimestamp) : fight.deaths,
+    trackedEvents: Array.isArray(fight.trackedEvents)
+      ? fight.trackedEvents.map(shiftTimestamp)
+      : fight.trackedEvents,
+    bloodlusts: Array.isArray(fight.bloodlusts) ? fight.bloodlusts.map(shiftTimestamp) : fight.bloodlusts,
+  };
+}
+
+// Two loggers recording the same pull produce the same boss fight in both reports; keep the first.
+function isDuplicateBossFight(fight: RawFight, existing: RawFight[]): boolean {
+  if ((fight.encounterID ?? 0) <= 0) {
+    return false;
+  }
+  return existing.some(
+    (other) =>
+      other.encounterID === fight.encounterID &&
+      other.reportCode !== fight.reportCode &&
+      Math.abs(other.startTime - fight.startTime) <= DUPLICATE_PULL_WINDOW_MS,
+  );
+}
+
+const DUPLICATE_PULL_WINDOW_MS = 5000;
+
+export function parseReportIdList(input: string): string[] {
+  const ids: string[] = [];
+  input
+    .split(/[\s,]+/)
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0)
+    .forEach((token) => {
+      const id = extractReportId(token);
+      if (!ids.includes(id)) {
+        ids.push(id);
+      }
+    });
+  if (!ids.length) {
+    throw new Error("Report ID or URL is invalid.");
+  }
+  return ids;
+}
+
 export function extractReportId(input: string): string {
   const trimmed = input.trim();
   const urlMatch = trimmed.match(/reports\/([A-Za-z0-9]{16})/);
@@ -211,25 +396,40 @@ function extractBossPercentage(fight: RawFight): number | undefined {
 export function buildBossFightRows(
   fights: RawFight[],
   vodStartSeconds: number,
+  options: FightRowOptions = {},
 ): FightRow[] {
-  const bossFights = fights.filter((fight) => (fight.encounterID ?? 0) > 0);
-  if (!bossFights.length) {
+  const bossFights = fights.filter(isBossFight);
+  const trashFights = options.includeTrash ? fights.filter((fight) => !isBossFight(fight)) : [];
+  if (!bossFights.length && !trashFights.length) {
     throw new Error("Report contains no boss fights.");
   }
   bossFights.sort((a, b) => a.startTime - b.startTime);
-  const firstStartSeconds = bossFights[0].startTime / 1000;
+  // The first pull timestamp always refers to the first boss pull, even when trash comes before it.
+  const anchorFight = bossFights[0] ?? [...trashFights].sort((a, b) => a.startTime - b.startTime)[0];
+  const firstStartSeconds = anchorFight.startTime / 1000;
   const videoOffset = vodStartSeconds - firstStartSeconds;
 
-  return bossFights.map((fight, index) => {
+  const includedFights = [...bossFights, ...trashFights].sort((a, b) => a.startTime - b.startTime);
+  let bossPullCount = 0;
+  let trashPullCount = 0;
+
+  return includedFights.map((fight) => {
+    const isTrash = !isBossFight(fight);
     const startSeconds = fight.startTime / 1000;
     const videoSeconds = Math.max(0, startSeconds + videoOffset);
     const duration = Math.max(0, (fight.endTime - fight.startTime) / 1000);
+    if (isTrash) {
+      trashPullCount += 1;
+      return buildTrashFightRow(fight, trashPullCount, videoSeconds, duration);
+    }
+    bossPullCount += 1;
     const bossHpLeft = extractBossPercentage(fight);
     const bossProgress =
       typeof bossHpLeft === "number" ? Math.max(0, 100 - bossHpLeft) : undefined;
     const { segments, markers } = buildPhaseSegmentsAndMarkers(fight, duration);
     return {
-      pull: index + 1,
+      fightId: fight.id,
+      pull: bossPullCount,
       bossName: fight.name || "Unknown Boss",
       kill: Boolean(fight.kill),
       result: fight.kill ? "KILL" : "Wipe",
@@ -243,11 +443,52 @@ export function buildBossFightRows(
       phaseSegments: segments,
       phaseMarkers: markers,
       deaths: buildDeathMarkers(fight, duration),
-      bloodlusts: buildBloodlustMarkers(fight, duration),
+      ...buildTrackedFields(fight, duration),
+      reportCode: fight.reportCode,
     };
   });
 }
 
+/** Seconds from the first boss pull to each boss pull, indexed by pull number - 1. */
+export function getBossPullLogSeconds(fights: RawFight[]): number[] {
+  const bossFights = fights.filter(isBossFight).sort((a, b) => a.startTime - b.startTime);
+  if (!bossFights.length) {
+    return [];
+  }
+  const firstStart = bossFights[0].startTime;
+  return bossFights.map((fight) => (fight.startTime - firstStart) / 1000);
+}
+
+function isBossFight(fight: RawFight): boolean {
+  return (fight.encounterID ?? 0) > 0;
+}
+
+function buildTrashFightRow(
+  fight: RawFight,
+  pull: number,
+  videoSeconds: number,
+  duration: number,
+): FightRow {
+  return {
+    fightId: fight.id,
+    pull,
+    bossName: fight.name || "Trash",
+    kill: false,
+    result: "Trash",
+    timestamp: formatHhmmss(videoSeconds),
+    videoSeconds,
+    durationSeconds: duration,
+    durationText: formatDuration(duration),
+    phases: [{ label: "Trash", percentage: null }],
+    phaseSegments: [{ label: "Trash", startSeconds: 0, endSeconds: duration }],
+    phaseMarkers: [],
+    deaths: buildDeathMarkers(fight, duration),
+    ...buildTrackedFields(fight, duration),
+    reportCode: fight.reportCode,
+    isTrash: true,
+  };
+}
+
 function buildPhaseInfo(fight: RawFight): PhaseInfo[] {
   const label = fight.kill
     ? "Kill"
@@ -456,9 +697,9 @@ function getNumber(value: unknown): number | undefined {
 }
 
 function buildDeathMarkers(fight: RawFight, durationSeconds: number): DeathMarker[] {
-  const rawDeaths = Array.isArray((fight as any).deaths) ? (fight as any).deaths : [];
+  const rawDeaths: any[] = Array.isArray((fight as any).deaths) ? (fight as any).deaths : [];
   return rawDeaths
-    .map((event: any) => {
+    .map((event: any): DeathMarker | null => {
       const timestamp = typeof event?.timestamp === "number" ? event.timestamp : undefined;
       if (timestamp == null) return null;
       const offsetMs = timestamp - fight.startTime;
@@ -466,6 +707,7 @@ function buildDeathMarkers(fight: RawFight, durationSeconds: number): DeathMarke
       const player = event?.target?.name || event?.target?.guid || "Unknown";
       return {
         player,
+        actorType: typeof event?.target?.type === "string" ? event.target.type : null,
         offsetSeconds,
         offsetText: formatDuration(offsetSeconds),
       };
@@ -474,36 +716,38 @@ function buildDeathMarkers(fight: RawFight, durationSeconds: number): DeathMarke
     .sort((a, b) => a.offsetSeconds - b.offsetSeconds);
 }
 
-function buildBloodlustMarkers(fight: RawFight, durationSeconds: number): BloodlustMarker[] {
-  const rawEvents = Array.isArray((fight as any).bloodlusts) ? (fight as any).bloodlusts : [];
+// Server lane whose casts also fill `FightRow.bloodlusts`.
+const BLOODLUST_GROUP_ID = "bloodlust";
+
+function buildTrackedFields(
+  fight: RawFight,
+  durationSeconds: number,
+): Pick<FightRow, "trackedMarkers" | "bloodlusts"> {
+  const trackedMarkers = buildTrackedMarkers(fight, durationSeconds);
+  return {
+    trackedMarkers,
+    bloodlusts: trackedMarkers.filter((marker) => marker.group === BLOODLUST_GROUP_ID),
+  };
+}
+
+function buildTrackedMarkers(fight: RawFight, durationSeconds: number): TrackedMarker[] {
+  const rawEvents: GraphQLTrackedEvent[] = Array.isArray(fight.trackedEvents) ? fight.trackedEvents : [];
   return rawEvents
-    .map((event: GraphQLBloodlustEvent) => {
+    .map((event: GraphQLTrackedEvent): TrackedMarker | null => {
       const timestamp = typeof event?.timestamp === "number" ? event.timestamp : undefined;
-      if (timestamp == null) return null;
+      if (timestamp == null || !event.group) return null;
       const offsetMs = timestamp - fight.startTime;
       const offsetSeconds = Math.max(0, Math.min(durationSeconds, offsetMs / 1000));
-      const caster = event?.source?.name || "Unknown";
-      const ability = event?.ability?.name || "Bloodlust";
-      const abilityId = getNumber(event?.ability?.id);
-      const abilityIcon = getBloodlustIcon(abilityId ?? null, ability);
       return {
-        caster,
-        ability,
-        abilityId: abilityId ?? null,
-        abilityIcon,
+        group: event.group,
+        caster: event?.source?.name || "Unknown",
+        ability: event?.ability?.name || "Unknown ability",
+        abilityId: getNumber(event?.ability?.id) ?? null,
+        abilityIcon: event?.ability?.icon ?? null,
         offsetSeconds,
         offsetText: formatDuration(offsetSeconds),
       };
     })
-    .filter((marker): marker is BloodlustMarker => Boolean(marker))
+    .filter((marker): marker is TrackedMarker => Boolean(marker))
     .sort((a, b) => a.offsetSeconds - b.offsetSeconds);
 }
-
-function getBloodlustIcon(abilityId: number | null, name: string | null | undefined): string | null {
-  if (abilityId != null && BLOODLUST_ICON_ID_MAP[abilityId]) {
-    return BLOODLUST_ICON_ID_MAP[abilityId];
-  }
-  if (!name) return null;
-  const key = name.trim().toLowerCase();
-  return BLOODLUST_ICON_NAME_MAP[key] ?? null;
-}
@@ -0,0 +1,110 @@
+import type { FightRow } from "./logtime";
+
+export interface ProgressionPoint {
+  pull: number;
+  night: number;
+  bossHpLeft: number | null;
+  phase: string;
+  durationSeconds: number;
+  kill: boolean;
+  videoSeconds: number;
+  reportCode?: string;
+}
+
+export interface NightSummary {
+  night: number;
+  reportCode?: string;
+  pullCount: number;
+  kills: number;
+  bestHpLeft: number | null;
+}
+
+export interface BossProgression {
+  bossName: string;
+  points: ProgressionPoint[];
+  bestPull: number | null;
+  nights: NightSummary[];
+}
+
+/** A pause this long between two pulls of a session starts a new raid night. */
+export const NIGHT_BREAK_SECONDS = 6 * 3600;
+
+/**
+ * Pull-by-pull progression for one boss. The best pull is the first kill, or otherwise the wipe with
+ * the least boss health left (ties go to the longer attempt).
+ */
+export function buildBossProgression(bossName: string, fights: FightRow[]): BossProgression {
+  const nightByFight = assignNights(fights);
+  const points = fights
+    .filter((fight) => !fight.isTrash && fight.bossName === bossName)
+    .sort((a, b) => a.videoSeconds - b.videoSeconds)
+    .map((fight) => ({
+      pull: fight.pull,
+      night: nightByFight.get(fight) ?? 1,
+      bossHpLeft: fight.kill ? 0 : typeof fight.bossHpLeft === "number" ? fight.bossHpLeft : null,
+      phase: fight.phases[fight.phases.length - 1]?.label ?? "P1",
+      durationSeconds: fight.durationSeconds,
+      kill: fight.kill,
+      videoSeconds: fight.videoSeconds,
+      reportCode: fight.reportCode,
+    }));
+
+  const nights = new Map<number, NightSummary>();
+  points.forEach((point) => {
+    const summary = nights.get(point.night) ?? {
+      night: point.night,
+      reportCode: point.reportCode,
+      pullCount: 0,
+      kills: 0,
+      bestHpLeft: null,
+    };
+    summary.pullCount += 1;
+    summary.kills += point.kill ? 1 : 0;
+    if (point.bossHpLeft != null && (summary.bestHpLeft == null || point.bossHpLeft < summary.bestHpLeft)) {
+      summary.bestHpLeft = point.bossHpLeft;
+    }
+    nights.set(point.night, summary);
+  });
+
+  return {
+    bossName,
+    points,
+    bestPull: findBestPull(points),
+    nights: Array.from(nights.values()).sort((a, b) => a.night - b.night),
+  };
+}
+
+function findBestPull(points: ProgressionPoint[]): number | null {
+  const firstKill = points.find((point) => point.kill);
+  if (firstKill) {
+    return firstKill.pull;
+  }
+  let best: ProgressionPoint | null = null;
+  for (const point of points) {
+    if (point.bossHpLeft == null) continue;
+    if (
+      !best ||
+      best.bossHpLeft == null ||
+      point.bossHpLeft < best.bossHpLeft ||
+      (point.bossHpLeft === best.bossHpLeft && point.durationSeconds > best.durationSeconds)
+    ) {
+      best = point;
+    }
+  }
+  return best ? best.pull : null;
+}
+
+// Nights are counted over the whole session so every boss shares the same numbering.
+function assignNights(fights: FightRow[]): Map<FightRow, number> {
+  const map = new Map<FightRow, number>();
+  let night = 1;
+  let previousEnd: number | null = null;
+  for (const fight of [...fights].sort((a, b) => a.videoSeconds - b.videoSeconds)) {
+    if (previousEnd != null && fight.videoSeconds - previousEnd >= NIGHT_BREAK_SECONDS) {
+      night += 1;
+    }
+    map.set(fight, night);
+    previousEnd = fight.videoSeconds + fight.durationSeconds;
+  }
+  return map;
+}
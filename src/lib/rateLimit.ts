@@ -0,0 +1,66 @@
+export interface RateLimitError extends Error {
+  retryAfterSeconds: number;
+  /** "proxy" when this client used up its request budget on the proxy, "upstream" for Warcraft Logs limits. */
+  source: "upstream" | "proxy";
+}
+
+/** Turns a 429 from the proxy into a RateLimitError; returns null for any other response. */
+export function readRateLimitError(response: Response, text: string): RateLimitError | null {
+  if (response.status !== 429) return null;
+  let retryAfterSeconds = Number(response.headers.get("Retry-After"));
+  let source: RateLimitError["source"] = "upstream";
+  try {
+    const payload = JSON.parse(text) as { retryAfterSeconds?: number; source?: string };
+    if (typeof payload.retryAfterSeconds === "number") {
+      retryAfterSeconds = payload.retryAfterSeconds;
+    }
+    if (payload.source === "proxy") {
+      source = "proxy";
+    }
+  } catch {
+    // plain-text 429 bodies only carry the header
+  }
+  const seconds = Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0 ? Math.ceil(retryAfterSeconds) : 30;
+  const message =
+    source === "proxy"
+      ? `Request budget on this proxy used up, retry in ${seconds} s.`
+      : `Rate limited by Warcraft Logs, retry in ${seconds} s.`;
+  return Object.assign(new Error(message), { retryAfterSeconds: seconds, source });
+}
+
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof Error && typeof (error as Partial<RateLimitError>).retryAfterSeconds === "number";
+}
+
+/**
+ * Runs `load`, waiting out rate limits up to `maxAttempts` times. `onWait` is called once per second of
+ * the countdown so the UI can show "retrying in N s".
+ */
+export async function retryWhenRateLimited<T>(
+  load: () => Promise<T>,
+  onWait: (secondsLeft: number, error: RateLimitError) => void,
+  maxAttempts = 3,
+): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await load();
+    } catch (error) {
+      if (!isRateLimitError(error) || attempt >= maxAttempts) {
+        throw error;
+      }
+      for (let secondsLeft = error.retryAfterSeconds; secondsLeft > 0; secondsLeft -= 1) {
+        onWait(secondsLeft, error);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+  }
+}
+
+export function describeRateLimitWait(
+  secondsLeft: number,
+  source: RateLimitError["source"] = "upstream",
+): string {
+  return source === "proxy"
+    ? `Request budget on this proxy used up, retrying in ${secondsLeft} s…`
+    : `Rate limited by Warcraft Logs, retrying in ${secondsLeft} s…`;
+}
@@ -0,0 +1,117 @@
+import { parseHhmmss } from "./logtime";
+
+/**
+ * A single sync point between the log and a video. `logSeconds` is measured from the start of the
+ * report's first boss pull; `videoSeconds` is the matching position inside the video file.
+ */
+export interface SyncAnchor {
+  logSeconds: number;
+  videoSeconds: number;
+}
+
+export interface PullSyncPoint {
+  pull: number;
+  videoSeconds: number;
+}
+
+export function normalizeAnchors(anchors: SyncAnchor[] | null | undefined): SyncAnchor[] {
+  const valid = (anchors ?? []).filter(
+    (anchor): anchor is SyncAnchor =>
+      !!anchor && Number.isFinite(anchor.logSeconds) && Number.isFinite(anchor.videoSeconds),
+  );
+  const byLog = new Map<number, SyncAnchor>();
+  valid.forEach((anchor) => {
+    // Later anchors win so a re-entered sync point replaces the earlier one.
+    byLog.set(anchor.logSeconds, { logSeconds: anchor.logSeconds, videoSeconds: anchor.videoSeconds });
+  });
+  return Array.from(byLog.values()).sort((a, b) => a.logSeconds - b.logSeconds);
+}
+
+export function logToVideoSeconds(anchors: SyncAnchor[], logSeconds: number): number {
+  return interpolate(
+    anchors,
+    logSeconds,
+    (anchor) => anchor.logSeconds,
+    (anchor) => anchor.videoSeconds,
+  );
+}
+
+export function videoToLogSeconds(anchors: SyncAnchor[], videoSeconds: number): number {
+  return interpolate(
+    anchors,
+    videoSeconds,
+    (anchor) => anchor.videoSeconds,
+    (anchor) => anchor.logSeconds,
+  );
+}
+
+export function shiftAnchors(anchors: SyncAnchor[], deltaSeconds: number): SyncAnchor[] {
+  return anchors.map((anchor) => ({ ...anchor, videoSeconds: anchor.videoSeconds + deltaSeconds }));
+}
+
+/**
+ * Parses the "extra sync points" field: one `#<pull> HH:MM:SS` entry per line or comma, meaning
+ * the given boss pull starts at that timestamp in the video.
+ */
+export function parseSyncPointList(input: string): PullSyncPoint[] {
+  return input
+    .split(/[\n,]+/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const match = line.match(/^#?\s*(\d+)\s*(?:=|@|\s)\s*(\S+)$/);
+      if (!match) {
+        throw new Error(`Sync point "${line}" must look like "#12 01:23:45".`);
+      }
+      const pull = Number(match[1]);
+      if (!Number.isInteger(pull) || pull < 1) {
+        throw new Error(`Sync point "${line}" has an invalid pull number.`);
+      }
+      return { pull, videoSeconds: parseHhmmss(match[2]) };
+    });
+}
+
+export function resolvePullSyncPoints(
+  points: PullSyncPoint[],
+  pullLogSeconds: number[],
+): SyncAnchor[] {
+  return points.map((point) => {
+    const logSeconds = pullLogSeconds[point.pull - 1];
+    if (typeof logSeconds !== "number") {
+      throw new Error(`Sync point references pull #${point.pull}, but the report has ${pullLogSeconds.length} pulls.`);
+    }
+    return { logSeconds, videoSeconds: point.videoSeconds };
+  });
+}
+
+function interpolate(
+  anchors: SyncAnchor[],
+  value: number,
+  from: (anchor: SyncAnchor) => number,
+  to: (anchor: SyncAnchor) => number,
+): number {
+  if (!anchors.length) {
+    return value;
+  }
+  const sorted = [...anchors].sort((a, b) => from(a) - from(b));
+  const first = sorted[0];
+  if (value <= from(first)) {
+    return to(first) + (value - from(first));
+  }
+  for (let index = 0; index < sorted.length - 1; index += 1) {
+    const current = sorted[index];
+    const next = sorted[index + 1];
+    if (value > from(next)) {
+      continue;
+    }
+    const span = from(next) - from(current);
+    if (span <= 0) {
+      return to(current);
+    }
+    const ratio = (value - from(current)) / span;
+    return to(current) + ratio * (to(next) - to(current));
+  }
+  // Past the last anchor the video plays in real time again.
+  const last = sorted[sorted.length - 1];
+  return to(last) + (value - from(last));
+}
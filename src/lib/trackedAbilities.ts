@@ -0,0 +1,57 @@
+import type { TrackedAbilityInput } from "./logtime";
+
+/**
+ * Parses the "tracked abilities" field. Each line is `Label: 98008, 97462` with an optional
+ * `#rrggbb` colour and an `(enemy)` tag for boss casts; `-Label` hides a server lane.
+ */
+export function parseTrackedAbilityList(input: string): TrackedAbilityInput[] {
+  return input
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      if (line.startsWith("-")) {
+        const label = line.slice(1).trim();
+        if (!label) {
+          throw new Error(`Tracked ability line "${line}" needs a lane name to hide.`);
+        }
+        return { label, abilityIds: [] };
+      }
+      const match = line.match(/^([^:]+):(.*)$/);
+      if (!match) {
+        throw new Error(`Tracked ability line "${line}" must look like "Raid CDs: 98008, 97462".`);
+      }
+      let label = match[1].trim();
+      const hostile = /\(enemy\)\s*$/i.test(label);
+      label = label.replace(/\(enemy\)\s*$/i, "").trim();
+      const color = match[2].match(/#[0-9a-f]{6}\b|#[0-9a-f]{3}\b/i)?.[0];
+      const abilityIds = match[2]
+        .replace(/#[0-9a-f]+/gi, "")
+        .split(/[\s,]+/)
+        .filter((token) => token.length > 0)
+        .map((token) => {
+          const id = Number(token);
+          if (!Number.isInteger(id) || id <= 0) {
+            throw new Error(`Tracked ability "${token}" in "${label}" is not a spell ID.`);
+          }
+          return id;
+        });
+      if (!label || !abilityIds.length) {
+        throw new Error(`Tracked ability line "${line}" needs a label and at least one spell ID.`);
+      }
+      return { label, abilityIds, ...(color ? { color } : {}), ...(hostile ? { hostile } : {}) };
+    });
+}
+
+export function formatTrackedAbilityList(groups: TrackedAbilityInput[]): string {
+  return groups
+    .map((group) => {
+      if (!group.abilityIds.length) {
+        return `-${group.label}`;
+      }
+      const label = group.hostile ? `${group.label} (enemy)` : group.label;
+      const color = group.color ? ` ${group.color}` : "";
+      return `${label}: ${group.abilityIds.join(", ")}${color}`;
+    })
+    .join("\n");
+}